@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 
 // ERC20 token interface with permit functionality (EIP-2612)
 interface IERC20Permit {
@@ -26,15 +27,74 @@ interface IERC20Permit {
     function DOMAIN_SEPARATOR() external view returns (bytes32);
 }
 
+// DAI-style permit (grants or revokes an unlimited allowance)
+interface IDaiPermit {
+    function permit(
+        address holder,
+        address spender,
+        uint256 nonce,
+        uint256 expiry,
+        bool allowed,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
+
+// EIP-3009 transfer with authorization (e.g. USDC)
+interface IERC3009 {
+    function transferWithAuthorization(
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
+
+// Uniswap Permit2 SignatureTransfer interface, for tokens without EIP-2612
+interface ISignatureTransfer {
+    struct TokenPermissions {
+        address token;
+        uint256 amount;
+    }
+
+    struct PermitTransferFrom {
+        TokenPermissions permitted;
+        uint256 nonce;
+        uint256 deadline;
+    }
+
+    struct SignatureTransferDetails {
+        address to;
+        uint256 requestedAmount;
+    }
+
+    function permitWitnessTransferFrom(
+        PermitTransferFrom memory permit,
+        SignatureTransferDetails calldata transferDetails,
+        address owner,
+        bytes32 witness,
+        string calldata witnessTypeString,
+        bytes calldata signature
+    ) external;
+}
+
 /**
  * @title ERC20Facilitator
  * @dev Allows users to transfer any ERC20 token without sending an on-chain approval transaction
  * using ERC20 permit pattern (EIP-2612)
  * Includes bulk transfer functionality for multiple recipients
+ * Trusts KalpRelayer as its ERC-2771 forwarder, for transfers that must come from the holder
  */
 contract ERC20Facilitator is 
     Ownable, 
-    ReentrancyGuard 
+    ReentrancyGuard,
+    ERC2771Context
 {
     using SafeERC20 for IERC20;
     using ECDSA for bytes32;
@@ -45,6 +105,21 @@ contract ERC20Facilitator is
         uint256 amount;
     }
 
+    // Split ECDSA signature, as DAI-style permit takes it
+    struct PermitSignature {
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    // Canonical Uniswap Permit2 deployment
+    ISignatureTransfer public constant PERMIT2 = ISignatureTransfer(0x000000000022D473030F116dDEE9F6B43aC78BA3);
+
+    // Permit2 witness binding the recipient to the owner's signature
+    bytes32 private constant TRANSFER_RECIPIENT_TYPEHASH = keccak256("TransferRecipient(address to)");
+    string private constant TRANSFER_RECIPIENT_WITNESS_TYPE =
+        "TransferRecipient witness)TokenPermissions(address token,uint256 amount)TransferRecipient(address to)";
+
     // Mapping to track used permit signatures to prevent replay attacks
     // token => permitHash => used
     mapping(address => mapping(bytes32 => bool)) public usedPermits;
@@ -75,11 +150,15 @@ contract ERC20Facilitator is
     error InvalidRecipientAmount();
     error InvalidToken();
     error AmountMismatch();
+    error UnauthorizedHolder(address sender, address holder);
 
     /**
      * @dev Constructor - initializes the contract
+     * @param trustedForwarder KalpSenderRelayer contract whose verified user is the ERC-2771 sender,
+     * or address(0) to disable DAI permit transfers. Never pass a KalpRelayer 1.0.0: it forwards
+     * calldata as signed, so the address at its end is not verified.
      */
-    constructor() Ownable(msg.sender) {}
+    constructor(address trustedForwarder) Ownable(msg.sender) ERC2771Context(trustedForwarder) {}
 
     /**
      * @dev Main function to facilitate ERC20 transfer using permit
@@ -352,6 +431,146 @@ contract ERC20Facilitator is
         emit BulkFacilitationExecuted(token, owner, recipients.length, totalRecipientAmount);
     }
 
+    /**
+     * @dev Facilitate an ERC20 transfer through a Permit2 signature, for tokens without permit
+     * @param owner Address of the token owner (must have approved Permit2 on the token)
+     * @param permit Permit2 PermitWitnessTransferFrom signed by the owner, with this contract as spender
+     * @param to Recipient address for the token transfer (the signed witness; Permit2 rejects any other)
+     * @param signature Owner's Permit2 signature
+     */
+    function facilitateTransferWithPermit2(
+        address owner,
+        ISignatureTransfer.PermitTransferFrom calldata permit,
+        address to,
+        bytes calldata signature
+    ) external nonReentrant {
+        // Input validation (Permit2 checks the deadline and consumes the nonce)
+        if (permit.permitted.token == address(0)) revert InvalidToken();
+        if (owner == address(0) || to == address(0)) revert InvalidRecipient();
+        if (permit.permitted.amount == 0) revert ZeroAmount();
+
+        // Check owner's balance
+        if (IERC20(permit.permitted.token).balanceOf(owner) < permit.permitted.amount) revert InsufficientBalance();
+
+        // Transfer tokens to recipient
+        PERMIT2.permitWitnessTransferFrom(
+            permit,
+            ISignatureTransfer.SignatureTransferDetails({ to: to, requestedAmount: permit.permitted.amount }),
+            owner,
+            keccak256(abi.encode(TRANSFER_RECIPIENT_TYPEHASH, to)),
+            TRANSFER_RECIPIENT_WITNESS_TYPE,
+            signature
+        );
+
+        // Emit event
+        emit FacilitationExecuted(permit.permitted.token, owner, to, permit.permitted.amount);
+    }
+
+    /**
+     * @dev Facilitate an ERC20 transfer through a DAI-style permit
+     * A DAI permit signs neither amount nor recipient and grants an unlimited allowance, so
+     * the transfer must be relayed for the holder (ERC-2771 sender verified by KalpSenderRelayer),
+     * and the holder's second permit (nonce + 1, allowed = false) revokes the allowance again.
+     * @param token Address of the DAI-style token contract
+     * @param holder Address of the token holder (must be the relayed sender)
+     * @param to Recipient address for the token transfer
+     * @param value Amount of tokens to be transferred
+     * @param nonce Holder's permit nonce on the token
+     * @param expiry Expiry of both permit signatures
+     * @param permitSignature Holder's permit with allowed = true
+     * @param revokeSignature Holder's permit with allowed = false and nonce + 1
+     */
+    function facilitateTransferWithDaiPermit(
+        address token,
+        address holder,
+        address to,
+        uint256 value,
+        uint256 nonce,
+        uint256 expiry,
+        PermitSignature calldata permitSignature,
+        PermitSignature calldata revokeSignature
+    ) external nonReentrant {
+        // Only the holder decides amount and recipient; anyone else could replay the permit
+        if (_msgSender() != holder) revert UnauthorizedHolder(_msgSender(), holder);
+
+        // Input validation (the token consumes the nonce, so permits cannot be replayed)
+        if (token == address(0)) revert InvalidToken();
+        if (holder == address(0) || to == address(0)) revert InvalidRecipient();
+        if (value == 0) revert ZeroAmount();
+        if (expiry != 0 && block.timestamp > expiry) revert PermitExpired();
+
+        // Check holder's balance
+        if (IERC20(token).balanceOf(holder) < value) revert InsufficientBalance();
+
+        // Execute permit to approve this contract to spend tokens
+        try IDaiPermit(token).permit(
+            holder, address(this), nonce, expiry, true, permitSignature.v, permitSignature.r, permitSignature.s
+        ) {
+            // Permit successful
+        } catch {
+            revert InvalidPermitSignature();
+        }
+
+        // Transfer tokens to recipient
+        IERC20Permit(token).transferFrom(holder, to, value);
+
+        // Revoke the unlimited allowance so no later call can spend it
+        try IDaiPermit(token).permit(
+            holder, address(this), nonce + 1, expiry, false, revokeSignature.v, revokeSignature.r, revokeSignature.s
+        ) {
+            // Allowance revoked
+        } catch {
+            revert InvalidPermitSignature();
+        }
+
+        // Emit event
+        emit FacilitationExecuted(token, holder, to, value);
+    }
+
+    /**
+     * @dev Facilitate an ERC20 transfer through an EIP-3009 transfer authorization
+     * @param token Address of the EIP-3009 token contract
+     * @param from Address of the token owner
+     * @param to Recipient address (must match the signed authorization)
+     * @param value Amount of tokens to be transferred
+     * @param validAfter Time after which the authorization is valid
+     * @param validBefore Time before which the authorization is valid
+     * @param nonce Unique random nonce of the authorization
+     * @param v Recovery byte of the signature
+     * @param r First 32 bytes of the signature
+     * @param s Second 32 bytes of the signature
+     */
+    function facilitateTransferWithAuthorization(
+        address token,
+        address from,
+        address to,
+        uint256 value,
+        uint256 validAfter,
+        uint256 validBefore,
+        bytes32 nonce,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant {
+        // Input validation (the token checks the validity window and consumes the nonce)
+        if (token == address(0)) revert InvalidToken();
+        if (from == address(0) || to == address(0)) revert InvalidRecipient();
+        if (value == 0) revert ZeroAmount();
+
+        // Check owner's balance
+        if (IERC20(token).balanceOf(from) < value) revert InsufficientBalance();
+
+        // Transfer tokens to recipient
+        try IERC3009(token).transferWithAuthorization(from, to, value, validAfter, validBefore, nonce, v, r, s) {
+            // Transfer successful
+        } catch {
+            revert InvalidPermitSignature();
+        }
+
+        // Emit event
+        emit FacilitationExecuted(token, from, to, value);
+    }
+
     /**
      * @dev Get token decimals for calculations
      * @param token Address of the ERC20 token
@@ -477,4 +696,17 @@ contract ERC20Facilitator is
     function version() external pure returns (string memory) {
         return "2.0.0";
     }
-}
\ No newline at end of file
+
+    // Resolve the conflict by explicitly overriding and delegating to ERC2771Context
+    function _contextSuffixLength() internal view virtual override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    function _msgSender() internal view virtual override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view virtual override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+}
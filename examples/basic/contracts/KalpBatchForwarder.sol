@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
+/**
+ * @title KalpBatchForwarder
+ * @dev Executes several calls relayed by KalpSenderRelayer as one request. KalpSenderRelayer
+ * appends the user whose signature it verified (ERC-2771); the forwarder only trusts that
+ * suffix when the relayer is the caller, and appends the user to each inner call, so targets
+ * that trust this contract as their forwarder see the user as _msgSender(). KalpRelayer
+ * 1.0.0 forwards calldata unchanged and cannot be used with this forwarder.
+ */
+contract KalpBatchForwarder is ERC2771Context {
+    struct Call {
+        address target;
+        bytes data;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    error BatchCallFailed(uint256 index, bytes returnData);
+    error UntrustedRelayer(address caller);
+
+    /**
+     * @param relayer KalpSenderRelayer contract allowed to relay batches
+     */
+    constructor(address relayer) ERC2771Context(relayer) {}
+
+    /**
+     * @dev Execute calls in order on behalf of the relayed user
+     * @param calls Targets and calldata (without an ERC-2771 suffix)
+     * @param atomic Revert the whole batch when a call fails; otherwise report it and continue
+     * @return results Success flag and return (or revert) data of each call
+     */
+    function executeBatch(Call[] calldata calls, bool atomic) external returns (Result[] memory results) {
+        // Without the relayer's verified suffix there is no user to act for
+        if (!isTrustedForwarder(msg.sender)) revert UntrustedRelayer(msg.sender);
+        address user = _msgSender();
+        results = new Result[](calls.length);
+
+        for (uint256 i = 0; i < calls.length; i++) {
+            (bool success, bytes memory returnData) = calls[i].target.call(
+                abi.encodePacked(calls[i].data, user)
+            );
+
+            if (!success && atomic) revert BatchCallFailed(i, returnData);
+
+            results[i] = Result(success, returnData);
+        }
+    }
+}
@@ -0,0 +1,98 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
+/**
+ * @title KalpSenderRelayer
+ * @dev Version 1.1.0 of KalpRelayer. Identical, except that it appends the user whose
+ * signature it verified to the target call (ERC-2771) instead of forwarding `data`
+ * unchanged, so targets never trust a sender suffix the caller supplied. Relay requests
+ * carry `data` without a suffix; configure the SDK chain with `relayerAppendsSender: true`.
+ * The domain version differs from KalpRelayer 1.0.0, so signatures made for one are
+ * rejected by the other.
+ */
+contract KalpSenderRelayer is ReentrancyGuard, EIP712, Ownable, ERC2771Context {
+    bytes32 private constant RELAY_REQUEST_TYPEHASH =
+        keccak256(
+            "RelayRequest(address target,bytes data,address user,address sponsor,uint256 chainId)"
+        );
+
+    mapping(address => bool) public authorizedRelayers;
+
+    event RelayExecuted(
+        address indexed target,
+        address indexed user,
+        address indexed sponsor,
+        bool success,
+        bytes result
+    );
+
+    constructor(address trustedForwarder)
+        EIP712("KalpRelayer", "1.1.0")
+        Ownable(msg.sender)
+        ERC2771Context(trustedForwarder)
+    {}
+
+    function addAuthorizedRelayer(address relayer) external onlyOwner {
+        authorizedRelayers[relayer] = true;
+    }
+
+    function removeAuthorizedRelayer(address relayer) external onlyOwner {
+        authorizedRelayers[relayer] = false;
+    }
+
+    function executeRelay(
+        address target,
+        bytes calldata data,
+        address user,
+        bytes calldata userSignature,
+        address sponsor
+    ) external nonReentrant returns (bool, bytes memory) {
+        require(authorizedRelayers[_msgSender()], "Unauthorized relayer");
+        require(block.chainid == _chainId(), "Invalid chain ID");
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                RELAY_REQUEST_TYPEHASH,
+                target,
+                keccak256(data),
+                user,
+                sponsor,
+                _chainId()
+            )
+        );
+
+        bytes32 hash = _hashTypedDataV4(structHash);
+        address signer = ECDSA.recover(hash, userSignature);
+        require(signer == user, "Invalid signature");
+
+        // Append the verified user (ERC-2771) so targets never trust a caller-supplied suffix
+        (bool success, bytes memory result) = target.call(abi.encodePacked(data, user));
+
+        emit RelayExecuted(target, user, sponsor, success, result);
+
+        return (success, result);
+    }
+
+    // Resolve the conflict by explicitly overriding and delegating to ERC2771Context
+    function _contextSuffixLength() internal view virtual override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    function _msgSender() internal view virtual override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view virtual override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _chainId() internal view returns (uint256) {
+        return block.chainid;
+    }
+}
\ No newline at end of file
@@ -9,8 +9,9 @@ import 'dotenv/config';
  * by using EIP-2612 permit signatures combined with the Kalp Relayer.
  *
  * Prerequisites:
- * 1. Deploy the ERC20Facilitator contract (examples/basic/contracts/ERC20Facilator.sol)
- * 2. Deploy the KalpRelayer contract (examples/basic/contracts/KalpRelayer.sol)
+ * 1. Deploy the KalpRelayer contract (examples/basic/contracts/KalpRelayer.sol)
+ * 2. Deploy the ERC20Facilitator contract (examples/basic/contracts/ERC20Facilator.sol),
+ *    passing the KalpRelayer address as its trusted forwarder
  * 3. Have an ERC20 token that supports EIP-2612 permit (e.g., USDC, DAI)
  * 4. Configure environment variables
  *
@@ -35,15 +35,68 @@ import type {
   RelayResult,
   SignTypedDataFunction,
   TokenTransferParams,
+  BulkTokenTransferParams,
+  BulkTokenTransferResult,
+  FacilitatorMode,
+  EIP712Message,
+  EIP712Domain,
+  RelayRequestVersion,
+  RelayExecutionOptions,
+  RelayReceipt,
+  RelayLog,
+  WaitForRelayOptions,
+  SimulateRelayOptions,
+  RelaySimulationResult,
+  TargetAbi,
+  EstimateRelayGasOptions,
+  RelayGasEstimate,
+  SponsorResolutionContext,
+  GaslessContractOptions,
+  RelayTaskState,
+  RelayTaskStatus,
+  RelayTaskSubmitted,
+  RelayTaskMined,
+  WaitForTaskOptions,
+  RelaySubmissionRecord,
+  KeyValueStore,
+  RelayLifecycleEvents,
+  RelayLifecycleStage,
+  PreparedRelayRequest,
+  PrepareRelayOptions,
+  SignedRelayRequest,
+  SignRelayOptions,
+  SubmitSignedRelayOptions,
+  OnChainEip712Domain,
+  VerifyRelaySignatureOptions,
+  RelaySignatureVerification,
+  PermitMethod,
+  AmountFormat,
+  TokenMetadata,
+  TokenList,
+  RelayBatchParams,
+  RelayBatchOptions,
+  RelayBatchResult,
 } from './types';
 
 // Type alias for ethers provider
 type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
 import {
   WalletNotConnectedError,
+  SponsorFetchError,
   SignatureError,
   RelaySubmissionError,
+  RelayHttpError,
+  RelaySubmissionUnconfirmedError,
   ChainNotSupportedError,
+  PermitAlreadyUsedError,
+  RelayInnerCallFailedError,
+  RelaySimulationError,
+  RelayAbortedError,
+  RelayTaskFailedError,
+  RelaySignatureMismatchError,
+  RelayDomainMismatchError,
+  InsufficientBalanceError,
+  RequestTimeoutError,
 } from './errors';
 import {
   retryWithBackoff,
@@ -51,24 +104,68 @@ import {
   isValidAddress,
   isValidChainId,
   shouldRetryError,
+  isRejectedSubmission,
+  createRelayHttpError,
+  calldataGas,
+  MemoryStore,
+  Cache,
+  abortable,
+  throwIfAborted,
+  createLinkedAbortController,
+  sleep,
 } from './utils';
 import {
   getTokenNonce,
   getTokenDomain,
   signPermit,
-  encodeFacilitatorCall,
+  encodeBulkFacilitatorCall,
+  prepareBulkRecipients,
+  calculateFacilitatorPermitHash,
+  isPermitUsed,
   calculateDeadline,
+  detectPermitMethod,
+  signPermitTypedData,
+  getTokenBalance,
+  parseTokenAmount,
+  PermitFlavorRegistry,
 } from './tokenTransfer';
+import type { PermitFlavor, PermitFlavorContext } from './tokenTransfer';
+import {
+  waitForTransactionReceipt,
+  parseRelayExecutedEvent,
+  decodeRevertReason,
+  extractRevertData,
+} from './relayReceipt';
+import { parseRelayTaskStatus } from './relayTask';
+import { computeIdempotencyKey, IDEMPOTENCY_HEADER } from './idempotency';
+import { evaluateSponsorPolicies, findSponsorPolicy, releaseDailyQuota, reserveDailyQuota } from './sponsorPolicy';
+import { silentLogger, createRedactingLogger } from './logger';
+import type { Logger, LogFields } from './logger';
+import { TypedEventEmitter } from './events';
+import { GaslessContract } from './gaslessContract';
+import { TokenRegistry } from './tokenRegistry';
+import { encodeRelayBatch, decodeRelayBatchResults, BATCH_FORWARDER_ABI } from './relayBatch';
+import { MULTICALL3_ABI } from './multicall';
+import {
+  RELAY_TYPES,
+  createSignedRelay,
+  parseSignedRelay,
+  getSignedRelayMessage,
+  recoverRelaySigner,
+} from './signedRelay';
+import { fetchEip712Domain, fetchDomainSeparator, computeDomainSeparator } from './eip712';
+import type { EventListener } from './events';
+
+/** Log fields every relay operation carries; requestId doubles as the event correlation ID */
+type RelayLogFields = LogFields & { requestId: string; chainId: number };
 
-const RELAY_TYPE: Record<string, Array<{ name: string; type: string }>> = {
-  RelayRequest: [
-    { name: 'target', type: 'address' },
-    { name: 'data', type: 'bytes' },
-    { name: 'user', type: 'address' },
-    { name: 'sponsor', type: 'address' },
-    { name: 'chainId', type: 'uint256' },
-  ],
-};
+/**
+ * Minimal KalpRelayer ABI (`nonces` is only available on v2 relayers)
+ */
+const RELAYER_ABI = [
+  'function executeRelay(address target, bytes data, address user, bytes userSignature, address sponsor) returns (bool, bytes)',
+  'function nonces(address user) view returns (uint256)',
+];
 
 /** Default configuration values */
 const DEFAULTS = {
@@ -77,14 +174,47 @@ const DEFAULTS = {
   INITIAL_RETRY_DELAY: 1000,
   BACKOFF_MULTIPLIER: 2,
   REQUEST_TIMEOUT: 30000, // 30 seconds
+  RECEIPT_CONFIRMATIONS: 1,
+  RECEIPT_TIMEOUT: 120000, // 2 minutes
+  RECEIPT_POLL_INTERVAL: 2000,
+  TASK_TIMEOUT: 120000, // 2 minutes
+  TASK_POLL_INTERVAL: 1000,
+  TASK_MAX_POLL_INTERVAL: 10000,
+  TASK_BACKOFF_MULTIPLIER: 1.5,
+  IDEMPOTENCY_TTL: 24 * 60 * 60 * 1000, // 24 hours
+  SPONSOR_CACHE_TTL: 5 * 60 * 1000, // 5 minutes
+  GAS_BUFFER_PERCENT: 20,
+  /** Intrinsic gas every transaction pays before calldata */
+  TX_BASE_GAS: 21000n,
+  /** Approximate KalpRelayer.executeRelay cost on top of the target call (ecrecover, guards, event) */
+  RELAYER_EXECUTION_OVERHEAD: 40000n,
 };
 
+/** Generate an identifier for correlating the log entries of one operation */
+const createRequestId = (): string => ethers.hexlify(ethers.randomBytes(8)).slice(2);
+
+/** Relay API acknowledgement; a queued request has a task ID but no transaction hash yet */
+type RelaySubmission = Omit<RelayResult, 'txHash'> & { txHash?: string };
+
+/** Placeholder signature used to size relayer calldata before signing */
+const PLACEHOLDER_SIGNATURE = '0x' + 'ff'.repeat(65);
+
 export class KalpRelaySDK {
   private config: KalpRelayConfig;
   private signTypedData: SignTypedDataFunction;
   private currentChainId: number;
   private chainConfigs: Map<number, ChainConfig>;
   private providers: Map<number, EthersProvider>;
+  private memoryQuotaStore = new MemoryStore<number>();
+  private memoryIdempotencyStore = new MemoryStore<RelaySubmissionRecord>();
+  private inFlightSubmissions = new Map<string, Promise<RelaySubmission>>();
+  private sponsorCache: Cache<string>;
+  private relayerDomains = new Map<number, Promise<EIP712Domain>>();
+  private permitFlavors: PermitFlavorRegistry;
+  private tokenRegistry: TokenRegistry;
+  private events = new TypedEventEmitter<RelayLifecycleEvents>((event, error) => {
+    this.logger.warn('Lifecycle event listener threw', { event, error });
+  });
 
   constructor(config: KalpRelayConfig, signTypedDataFn: SignTypedDataFunction) {
     // Validate required fields
@@ -98,21 +228,24 @@ export class KalpRelaySDK {
       throw new Error('Invalid sponsor address');
     }
 
-    // Apply defaults
+    // Apply defaults; a partial retry config keeps the defaults it does not override
     this.config = {
       relayApiUrl: DEFAULTS.RELAY_API_URL,
       timeout: DEFAULTS.REQUEST_TIMEOUT,
+      ...config,
       retry: {
         maxAttempts: DEFAULTS.MAX_RETRY_ATTEMPTS,
         initialDelay: DEFAULTS.INITIAL_RETRY_DELAY,
         backoffMultiplier: DEFAULTS.BACKOFF_MULTIPLIER,
         ...config.retry,
       },
-      ...config,
     };
 
     this.signTypedData = signTypedDataFn;
     this.currentChainId = config.chainId;
+    this.sponsorCache = new Cache<string>(config.sponsorCacheTtl ?? DEFAULTS.SPONSOR_CACHE_TTL);
+    this.permitFlavors = config.permitFlavors ?? new PermitFlavorRegistry();
+    this.tokenRegistry = config.tokenRegistry ?? new TokenRegistry();
 
     // Initialize chain configurations and providers
     this.chainConfigs = new Map();
@@ -126,6 +259,11 @@ export class KalpRelaySDK {
       domainVersion: config.domainVersion,
       sponsorAddress: config.sponsorAddress,
       relayApiUrl: config.relayApiUrl,
+      relayStatusUrl: config.relayStatusUrl,
+      idempotencyLookupUrl: config.idempotencyLookupUrl,
+      relayRequestVersion: config.relayRequestVersion,
+      relayerAppendsSender: config.relayerAppendsSender,
+      sponsorResolver: config.sponsorResolver,
     });
 
     // Add additional chains if provided
@@ -135,7 +273,89 @@ export class KalpRelaySDK {
       });
     }
 
-    console.log('✅ KalpRelaySDK initialized with chains:', Array.from(this.chainConfigs.keys()));
+    this.logger.info('KalpRelaySDK initialized', {
+      chains: Array.from(this.chainConfigs.keys()),
+    });
+  }
+
+  /**
+   * Configured logger, with signatures and the API key redacted
+   * @private
+   */
+  private get logger(): Logger {
+    const secrets = this.config.apiKey ? [this.config.apiKey] : [];
+    return createRedactingLogger(this.config.logger ?? silentLogger, secrets);
+  }
+
+  /**
+   * Subscribe to relay lifecycle events
+   *
+   * Every event carries the `correlationId` of the operation that raised it
+   * (the `requestId` execution option, or a generated ID also returned on the
+   * result), so concurrent relays can be told apart.
+   *
+   * @param event - Event name
+   * @param listener - Called synchronously with the event payload
+   * @returns Function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * sdk.on('retryScheduled', ({ correlationId, attempt, maxAttempts }) => {
+   *   setStatus(correlationId, `retrying (${attempt + 1}/${maxAttempts})`);
+   * });
+   * ```
+   */
+  on<K extends keyof RelayLifecycleEvents>(
+    event: K,
+    listener: EventListener<RelayLifecycleEvents[K]>
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of a relay lifecycle event
+   *
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof RelayLifecycleEvents>(
+    event: K,
+    listener: EventListener<RelayLifecycleEvents[K]>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Remove a relay lifecycle listener
+   */
+  off<K extends keyof RelayLifecycleEvents>(
+    event: K,
+    listener: EventListener<RelayLifecycleEvents[K]>
+  ): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Run one step of a relay, emitting `failed` if it throws or the signal aborts
+   * @private
+   */
+  private async trackStage<T>(
+    stage: RelayLifecycleStage,
+    logFields: RelayLogFields,
+    fn: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    try {
+      throwIfAborted(signal);
+      return await abortable(fn(), signal);
+    } catch (error) {
+      this.events.emit('failed', {
+        correlationId: logFields.requestId,
+        chainId: logFields.chainId,
+        stage,
+        error,
+      });
+      throw error;
+    }
   }
 
   /**
@@ -153,6 +373,7 @@ export class KalpRelaySDK {
     }
 
     this.chainConfigs.set(chainConfig.chainId, chainConfig);
+    this.relayerDomains.delete(chainConfig.chainId);
 
     // Create provider if RPC URL is provided
     if (chainConfig.rpcUrl) {
@@ -162,7 +383,7 @@ export class KalpRelaySDK {
       );
     }
 
-    console.log(`✅ Added chain configuration for chain ${chainConfig.chainId}`);
+    this.logger.debug('Added chain configuration', { chainId: chainConfig.chainId });
   }
 
   /**
@@ -173,6 +394,7 @@ export class KalpRelaySDK {
       throw new Error('Cannot remove current chain configuration');
     }
     this.chainConfigs.delete(chainId);
+    this.relayerDomains.delete(chainId);
   }
 
   /**
@@ -184,7 +406,7 @@ export class KalpRelaySDK {
     }
 
     this.currentChainId = chainId;
-    console.log(`🔄 Switched to chain ${chainId}`);
+    this.logger.info('Switched chain', { chainId });
   }
 
   /**
@@ -226,18 +448,149 @@ export class KalpRelaySDK {
    * Update SDK configuration
    */
   updateConfig(partialConfig: Partial<KalpRelayConfig>): void {
-    this.config = { ...this.config, ...partialConfig };
+    this.config = {
+      ...this.config,
+      ...partialConfig,
+      retry: { ...this.config.retry, ...partialConfig.retry },
+    };
+  }
+
+  /**
+   * Get the user's current relay nonce from the relayer contract
+   *
+   * Only meaningful for chains using RelayRequest v2; requires a provider for the chain.
+   *
+   * @param userAddress - User's wallet address
+   * @param chainId - Chain ID (optional, defaults to current chain)
+   * @returns Current relay nonce
+   */
+  async getRelayNonce(userAddress: string, chainId?: number): Promise<bigint> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const chainConfig = this.getChainConfig(targetChainId);
+    const provider = this.getProvider(targetChainId);
+
+    const relayerContract = new ethers.Contract(
+      chainConfig.relayerAddress,
+      RELAYER_ABI,
+      provider
+    );
+
+    try {
+      const nonce = await relayerContract.nonces(userAddress);
+      return BigInt(nonce.toString());
+    } catch (error) {
+      this.logger.error('Failed to get relay nonce', { chainId: targetChainId, error });
+      throw new Error(`Failed to get relay nonce from ${chainConfig.relayerAddress}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the EIP-712 domain relay requests are signed for
+   *
+   * When a provider is configured for the chain, the domain is read from the
+   * relayer's ERC-5267 `eip712Domain()` and takes precedence over the
+   * configured `domainName`/`domainVersion` (a mismatch is logged as a
+   * warning). Relayers without `eip712Domain()`, and chains without a
+   * provider, use the configured values. The result is cached per chain until
+   * the chain config changes or `clearDomainCache()` is called.
+   *
+   * @param chainId - Chain ID (optional, defaults to current chain)
+   * @returns EIP-712 domain of the chain's relayer
+   * @throws Error if the domain can neither be discovered nor is configured
+   */
+  async getRelayerDomain(chainId?: number): Promise<EIP712Domain> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const cached = this.relayerDomains.get(targetChainId);
+    if (cached) {
+      return cached;
+    }
+
+    const lookup = this.discoverRelayerDomain(targetChainId);
+    this.relayerDomains.set(targetChainId, lookup);
+    // Failed lookups are not cached
+    lookup.catch(() => {
+      if (this.relayerDomains.get(targetChainId) === lookup) {
+        this.relayerDomains.delete(targetChainId);
+      }
+    });
+
+    return lookup;
+  }
+
+  /**
+   * Clear cached relayer EIP-712 domains
+   */
+  clearDomainCache(): void {
+    this.relayerDomains.clear();
+  }
+
+  /**
+   * Read the relayer's domain via eip712Domain(), falling back to the chain config
+   * @private
+   */
+  private async discoverRelayerDomain(chainId: number): Promise<EIP712Domain> {
+    const chainConfig = this.getChainConfig(chainId);
+    const configured = {
+      name: chainConfig.domainName,
+      version: chainConfig.domainVersion,
+    };
+    const provider = this.providers.get(chainId);
+    let discovered: OnChainEip712Domain | undefined;
+
+    if (provider) {
+      try {
+        discovered = await fetchEip712Domain(chainConfig.relayerAddress, provider);
+      } catch (error) {
+        this.logger.debug('Relayer EIP-712 domain discovery failed', { chainId, error });
+      }
+    }
+
+    if (discovered?.name !== undefined && discovered.version !== undefined) {
+      if (
+        (configured.name !== undefined && configured.name !== discovered.name) ||
+        (configured.version !== undefined && configured.version !== discovered.version)
+      ) {
+        this.logger.warn('Configured EIP-712 domain differs from the relayer contract, using the on-chain domain', {
+          chainId,
+          configured,
+          discovered: { name: discovered.name, version: discovered.version },
+        });
+      }
+
+      return {
+        name: discovered.name,
+        version: discovered.version,
+        chainId,
+        verifyingContract: chainConfig.relayerAddress as `0x${string}`,
+      };
+    }
+
+    if (configured.name === undefined || configured.version === undefined) {
+      throw new Error(
+        `Cannot determine the EIP-712 domain of relayer ${chainConfig.relayerAddress} on chain ${chainId}: ` +
+          (provider ? 'it does not implement eip712Domain()' : 'no provider is configured') +
+          '. Set domainName and domainVersion in the chain config.'
+      );
+    }
+
+    return {
+      name: configured.name,
+      version: configured.version,
+      chainId,
+      verifyingContract: chainConfig.relayerAddress as `0x${string}`,
+    };
   }
 
   /**
-   * Create and sign an EIP-712 relay request
+   * Build the EIP-712 typed data of a relay request
    * @private
    */
-  private async signRelayRequest(
+  private async buildRelayRequest(
     params: RelayTransactionParams,
     sponsorAddress: string,
-    chainId?: number
-  ): Promise<string> {
+    targetChainId: number,
+    requestId: string
+  ): Promise<PreparedRelayRequest> {
     if (!params.userAddress) {
       throw new WalletNotConnectedError();
     }
@@ -253,138 +606,517 @@ export class KalpRelaySDK {
       throw new Error('Invalid sponsor address');
     }
 
-    const targetChainId = chainId ?? this.currentChainId;
     const chainConfig = this.getChainConfig(targetChainId);
+    const version = chainConfig.relayRequestVersion ?? 1;
 
-    try {
-      const domain = {
-        name: chainConfig.domainName,
-        version: chainConfig.domainVersion,
-        chainId: targetChainId,
-        verifyingContract: chainConfig.relayerAddress as `0x${string}`,
-      };
+    const message: EIP712Message = {
+      target: params.target,
+      data: params.data,
+      user: params.userAddress,
+      sponsor: sponsorAddress,
+      chainId: BigInt(targetChainId),
+    };
 
-      const message = {
-        target: params.target,
-        data: params.data,
-        user: params.userAddress,
-        sponsor: sponsorAddress,
-        chainId: BigInt(targetChainId),
-      };
+    // v2 binds the signature to the user's relayer nonce and an expiry
+    if (version === 2) {
+      const deadline = calculateDeadline(params.deadline);
+      if (deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+        throw new Error('Relay request deadline must be in the future');
+      }
 
-      console.log('🔐 EIP-712 Signature Request:');
-      console.log('Domain:', domain);
-      console.log('Types:', RELAY_TYPE);
-      console.log('Message:', {
-        ...message,
-        chainId: message.chainId.toString(),
-      });
+      message.nonce = await this.getRelayNonce(params.userAddress, targetChainId);
+      message.deadline = deadline;
+    }
 
-      const signature = await withTimeout(
-        this.signTypedData({
-          domain,
-          types: RELAY_TYPE,
-          primaryType: 'RelayRequest',
-          message,
-        }),
-        this.config.timeout!
+    return {
+      requestId,
+      chainId: targetChainId,
+      relayRequestVersion: version,
+      domain: await this.getRelayerDomain(targetChainId),
+      types: RELAY_TYPES[version],
+      primaryType: 'RelayRequest',
+      message,
+    };
+  }
+
+  /**
+   * Prepare a relay request for signing
+   *
+   * Resolves the sponsor, applies sponsor policies, optionally simulates the
+   * target call and returns the EIP-712 typed data without asking for a
+   * signature. Pass the result to `signRelay()`.
+   *
+   * @param params - Transaction parameters
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional correlation ID, abort signal and simulation
+   * @returns EIP-712 domain, types and message of the relay request
+   */
+  async prepareRelayRequest(
+    params: RelayTransactionParams,
+    chainId?: number,
+    options: PrepareRelayOptions = {}
+  ): Promise<PreparedRelayRequest> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const logFields: RelayLogFields = {
+      requestId: options.requestId ?? createRequestId(),
+      chainId: targetChainId,
+      target: params.target,
+    };
+    const { signal } = options;
+
+    // Resolve the sponsor address and apply sponsor policies
+    const sponsorAddress = await this.trackStage('sponsor', logFields, async () =>
+      this.applySponsorPolicies(
+        params,
+        await this.resolveSponsor(params, targetChainId, signal),
+        targetChainId,
+        signal
+      ),
+      signal
+    );
+
+    this.logger.debug('Using sponsor address', { ...logFields, sponsorAddress });
+
+    // Optional pre-flight: make sure the target call succeeds before prompting for a signature
+    const simulateOptions = options.simulate === true ? {} : options.simulate || undefined;
+    if (simulateOptions) {
+      await this.trackStage('simulate', logFields, () =>
+        this.simulateTargetCall(params, targetChainId, simulateOptions.targetAbi, signal),
+        signal
       );
+    }
 
-      return signature;
-    } catch (error) {
-      console.error('❌ Sign relay request failed:', error);
-      if (error instanceof Error) {
-        throw new SignatureError(error.message);
+    return this.trackStage('sign', logFields, () =>
+      this.buildRelayRequest(params, sponsorAddress, targetChainId, logFields.requestId),
+      signal
+    );
+  }
+
+  /**
+   * Ask the user to sign a prepared relay request
+   *
+   * @param prepared - Request returned by `prepareRelayRequest()`
+   * @param options - Optional abort signal
+   * @returns Serializable envelope for `submitSignedRelay()`
+   * @throws SignatureError if signing fails or is rejected
+   *
+   * @example
+   * ```typescript
+   * // On the user's device
+   * const prepared = await sdk.prepareRelayRequest({ target, data, userAddress });
+   * const signed = await sdk.signRelay(prepared);
+   * await fetch(BACKEND_URL, { method: 'POST', body: serializeSignedRelay(signed) });
+   *
+   * // On the backend
+   * const result = await sdk.submitSignedRelay(parseSignedRelay(await request.text()));
+   * ```
+   */
+  async signRelay(prepared: PreparedRelayRequest, options: SignRelayOptions = {}): Promise<SignedRelayRequest> {
+    const { signal } = options;
+    const { message } = prepared;
+    const logFields: RelayLogFields = {
+      requestId: prepared.requestId,
+      chainId: prepared.chainId,
+      target: message.target,
+    };
+
+    return this.trackStage('sign', logFields, async () => {
+      try {
+        this.logger.debug('Requesting relay request signature', {
+          ...logFields,
+          relayRequestVersion: prepared.relayRequestVersion,
+          domain: prepared.domain,
+          message,
+        });
+
+        const signEvent = {
+          correlationId: logFields.requestId,
+          chainId: prepared.chainId,
+          kind: 'relayRequest' as const,
+          userAddress: message.user,
+          target: message.target,
+        };
+        this.events.emit('signRequested', signEvent);
+
+        const signature = await withTimeout(
+          this.signTypedData({
+            domain: prepared.domain,
+            types: prepared.types,
+            primaryType: prepared.primaryType,
+            message: { ...message },
+            ...(signal && { signal }),
+          }),
+          this.config.timeout!,
+          undefined,
+          signal
+        );
+
+        this.events.emit('signed', signEvent);
+
+        return createSignedRelay(prepared, signature);
+      } catch (error) {
+        if (error instanceof RelayAbortedError) {
+          throw error;
+        }
+        this.logger.error('Relay request signing failed', { ...logFields, error });
+        if (error instanceof Error) {
+          throw new SignatureError(error.message);
+        }
+        throw new SignatureError(error);
       }
-      throw new SignatureError(error);
-    }
+    }, signal);
   }
 
   /**
    * Submit signed relay request to the backend
+   *
+   * Submissions are idempotent: the signed payload's hash is sent as the
+   * `Idempotency-Key` header, concurrent submissions of the same payload share
+   * one request, and a payload the submission store already saw completed is
+   * not posted again. `reserveQuota` runs only when the payload is actually
+   * posted, and its release function when that submission fails.
    * @private
    */
   private async submitRelayRequest(
-    params: RelayTransactionParams,
-    signature: string,
-    sponsorAddress: string,
-    chainId?: number
-  ): Promise<RelayResult> {
-    const targetChainId = chainId ?? this.currentChainId;
+    signed: SignedRelayRequest,
+    logFields: RelayLogFields,
+    signal?: AbortSignal,
+    reserveQuota?: () => Promise<() => Promise<void>>
+  ): Promise<RelaySubmission> {
+    const targetChainId = signed.chainId;
+    const { message } = signed;
+    const requestPayload: Record<string, unknown> = {
+      chainId: targetChainId,
+      contractAddress: message.target,
+      userAddress: message.user,
+      data: message.data,
+      userSignature: signed.signature,
+      sponsor: message.sponsor,
+    };
+
+    // v2 requests carry the signed nonce and deadline
+    if (message.nonce !== undefined && message.deadline !== undefined) {
+      requestPayload.nonce = message.nonce;
+      requestPayload.deadline = message.deadline;
+    }
+
+    const idempotencyKey = computeIdempotencyKey(requestPayload);
+    const submissionFields = { ...logFields, idempotencyKey };
+
+    // The same signed request is already being submitted by this SDK instance
+    const inFlight = this.inFlightSubmissions.get(idempotencyKey);
+    if (inFlight) {
+      this.logger.info('Joining in-flight relay submission', submissionFields);
+      return abortable(inFlight, signal);
+    }
+
+    const submission = this.postRelayRequest(
+      requestPayload,
+      idempotencyKey,
+      targetChainId,
+      submissionFields,
+      signal,
+      reserveQuota
+    );
+    this.inFlightSubmissions.set(idempotencyKey, submission);
+
+    try {
+      return await submission;
+    } finally {
+      this.inFlightSubmissions.delete(idempotencyKey);
+    }
+  }
+
+  /**
+   * POST a relay payload with retries, recording its submission state
+   *
+   * A payload that may already have been submitted (a failure after posting
+   * other than the relay API turning it away) is only posted again if the
+   * relay API can confirm it was not: through `idempotencyLookupUrl`, or
+   * because a v2 request's nonce cannot be relayed twice. Otherwise
+   * RelaySubmissionUnconfirmedError is raised instead of risking a second relay.
+   * @private
+   */
+  private async postRelayRequest(
+    requestPayload: Record<string, unknown>,
+    idempotencyKey: string,
+    targetChainId: number,
+    logFields: RelayLogFields,
+    signal?: AbortSignal,
+    reserveQuota?: () => Promise<() => Promise<void>>
+  ): Promise<RelaySubmission> {
     const chainConfig = this.getChainConfig(targetChainId);
     const relayApiUrl = chainConfig.relayApiUrl || this.config.relayApiUrl!;
+    const maxAttempts = this.config.retry!.maxAttempts!;
+    const store = this.config.idempotencyStore ?? this.memoryIdempotencyStore;
+    const ttl = this.config.idempotencyTtl ?? DEFAULTS.IDEMPOTENCY_TTL;
+    const canRepost =
+      Boolean(chainConfig.idempotencyLookupUrl || this.config.idempotencyLookupUrl) ||
+      requestPayload.nonce !== undefined;
+    let attempt = 0;
+
+    const record = await store.get(idempotencyKey);
+    const isLive = record !== undefined && Date.now() - record.updatedAt < ttl;
+
+    if (isLive && record.status === 'completed' && record.result) {
+      this.logger.info('Relay request was already submitted, returning previous result', logFields);
+      return { ...record.result, idempotencyKey };
+    }
 
-    const submitFn = async () => {
-      try {
-        const headers: Record<string, string> = {
-          'Content-Type': 'application/json',
-        };
+    // An earlier submission of this payload may have reached the relay API before failing
+    if (isLive && record.status === 'inFlight') {
+      const previous = await this.findSubmittedRelay(idempotencyKey, targetChainId, signal);
+      if (previous) {
+        this.logger.info('Relay request was already accepted by the relay API', {
+          ...logFields,
+          txHash: previous.txHash,
+          taskId: previous.taskId,
+        });
+        return this.recordSubmission(store, idempotencyKey, previous);
+      }
+      if (!canRepost) {
+        throw new RelaySubmissionUnconfirmedError(idempotencyKey);
+      }
+    }
+    let mayHaveBeenSubmitted = false;
 
-        // Add API key if configured
-        if (this.config.apiKey) {
-          headers['apiKey'] = this.config.apiKey;
-        }
+    // Only a payload that is actually posted counts against the user's quota
+    const releaseQuota = await reserveQuota?.();
+    await store.set(idempotencyKey, { status: 'inFlight', updatedAt: Date.now() });
 
-        const requestPayload = {
-          chainId: targetChainId,
-          contractAddress: params.target,
-          userAddress: params.userAddress,
-          data: params.data,
-          userSignature: signature,
-          sponsor: sponsorAddress,
-        };
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [IDEMPOTENCY_HEADER]: idempotencyKey,
+    };
+
+    // Add API key if configured
+    if (this.config.apiKey) {
+      headers['apiKey'] = this.config.apiKey;
+    }
+
+    // Cancels in-flight requests and pending retries on abort, timeout or completion
+    const { controller, release } = createLinkedAbortController(signal);
+
+    const submitFn = async (): Promise<RelaySubmission> => {
+      attempt += 1;
+      this.events.emit('submitAttempt', {
+        correlationId: logFields.requestId,
+        chainId: targetChainId,
+        attempt,
+        maxAttempts,
+      });
+
+      const wasUncertain = mayHaveBeenSubmitted;
+      try {
+        // Before posting again, ask the relay API whether an earlier attempt got through
+        if (mayHaveBeenSubmitted) {
+          const previous = await this.findSubmittedRelay(idempotencyKey, targetChainId, controller.signal);
+          if (previous) {
+            this.logger.info('Relay request was already accepted by the relay API', {
+              ...logFields,
+              txHash: previous.txHash,
+              taskId: previous.taskId,
+            });
+            return previous;
+          }
+          if (!canRepost) {
+            throw new RelaySubmissionUnconfirmedError(idempotencyKey);
+          }
+        }
+        mayHaveBeenSubmitted = true;
 
-        console.log('📤 Submitting relay request:', requestPayload);
+        this.logger.debug('Submitting relay request', { ...logFields, payload: requestPayload });
 
         const response = await fetch(relayApiUrl, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestPayload),
+          signal: controller.signal,
         });
 
-        console.log('📥 Relay response status:', response.status);
-
         if (!response.ok) {
-          const errorText = await response.text();
-          console.error('❌ Relay error response:', errorText);
-          throw new Error(`HTTP ${response.status}: ${response.statusText} - ${errorText}`);
+          const httpError = await createRelayHttpError(response);
+          this.logger.warn('Relay API returned an error', {
+            ...logFields,
+            status: httpError.status,
+            body: httpError.body,
+            retryAfter: httpError.retryAfter,
+          });
+          throw httpError;
         }
 
         const data = await response.json();
-        console.log('✅ Relay success response:', data);
-
-        if (data.message !== 'success') {
-          throw new Error(data.error || data.message || 'Transaction failed');
-        }
+        this.logger.debug('Relay API response', { ...logFields, status: response.status, body: data });
 
         // Handle both response formats: direct fields or nested in result
         const result = data.result || data;
+        const taskId: string | undefined = result.taskId || data.taskId;
+
+        // Queued requests are acknowledged with a task ID instead of 'success'
+        if (data.message !== 'success' && (!taskId || data.error)) {
+          throw new Error(data.error || data.message || 'Transaction failed');
+        }
 
         return {
           txHash: result.txHash || data.txHash,
           blockNumber: result.blockNumber || data.blockNumber,
           gasUsed: result.gasUsed || data.gasUsed,
           message: data.message,
+          ...(taskId && { taskId }),
         };
       } catch (error) {
+        // A request the relay API turned away was not submitted
+        if (isRejectedSubmission(error)) {
+          mayHaveBeenSubmitted = wasUncertain;
+        }
+        if (controller.signal.aborted) {
+          throw new RelayAbortedError(controller.signal.reason);
+        }
+        if (error instanceof RelayHttpError || error instanceof RelaySubmissionUnconfirmedError) {
+          throw error;
+        }
         const message = error instanceof Error ? error.message : 'Unknown relay error';
         throw new RelaySubmissionError(message, error);
       }
     };
 
+    let result: RelaySubmission;
     try {
       // Submit with retry and timeout
-      return await withTimeout(
+      result = await withTimeout(
         retryWithBackoff(submitFn, {
-          maxAttempts: this.config.retry!.maxAttempts,
+          maxAttempts,
           initialDelay: this.config.retry!.initialDelay,
           backoffMultiplier: this.config.retry!.backoffMultiplier,
-          shouldRetry: shouldRetryError,
+          maxDelay: this.config.retry!.maxDelay,
+          jitter: this.config.retry!.jitter,
+          shouldRetry: this.config.retry!.shouldRetry ?? shouldRetryError,
+          signal: controller.signal,
+          onRetry: (failedAttempt, delay, error) => {
+            this.logger.warn('Relay submission failed, retrying', {
+              ...logFields,
+              attempt: failedAttempt,
+              maxAttempts,
+              delay,
+              error,
+            });
+            this.events.emit('retryScheduled', {
+              correlationId: logFields.requestId,
+              chainId: targetChainId,
+              attempt: failedAttempt,
+              maxAttempts,
+              delay,
+              error,
+            });
+          },
         }),
-        this.config.timeout!
+        this.config.timeout!,
+        undefined,
+        signal
       );
     } catch (error) {
+      await releaseQuota?.();
+      // Only a payload that may have been submitted stays in flight, to be confirmed before it is posted again
+      if (!mayHaveBeenSubmitted) {
+        await store.delete(idempotencyKey);
+      }
       throw error;
+    } finally {
+      controller.abort();
+      release();
+    }
+
+    return this.recordSubmission(store, idempotencyKey, result);
+  }
+
+  /**
+   * Record a payload's submission as completed
+   * @private
+   */
+  private async recordSubmission(
+    store: KeyValueStore<RelaySubmissionRecord>,
+    idempotencyKey: string,
+    result: RelaySubmission
+  ): Promise<RelaySubmission> {
+    await store.set(idempotencyKey, {
+      status: 'completed',
+      updatedAt: Date.now(),
+      result: {
+        txHash: result.txHash,
+        taskId: result.taskId,
+        blockNumber: result.blockNumber,
+        gasUsed: result.gasUsed,
+        message: result.message,
+      },
+    });
+
+    return { ...result, idempotencyKey };
+  }
+
+  /**
+   * Look up an earlier submission of a payload at `idempotencyLookupUrl`
+   *
+   * Returns null when no lookup endpoint is configured, the endpoint does not
+   * know the key or cannot be read, or the task failed; the payload is then
+   * posted again under the same key. A pending task is returned
+   * without a transaction hash, like a queued POST response.
+   * @private
+   */
+  private async findSubmittedRelay(
+    idempotencyKey: string,
+    chainId: number,
+    signal?: AbortSignal
+  ): Promise<RelaySubmission | null> {
+    const lookupUrl = this.getChainConfig(chainId).idempotencyLookupUrl || this.config.idempotencyLookupUrl;
+    if (!lookupUrl) {
+      return null;
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['apiKey'] = this.config.apiKey;
+    }
+
+    let status: RelayTaskStatus;
+    try {
+      const response = await withTimeout(
+        fetch(`${lookupUrl}/${encodeURIComponent(idempotencyKey)}`, { headers, signal }),
+        this.config.timeout!,
+        undefined,
+        signal
+      );
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json();
+      const taskId = data?.result?.taskId ?? data?.taskId;
+      if (typeof taskId !== 'string' || !taskId) {
+        return null;
+      }
+      status = parseRelayTaskStatus(taskId, data);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RelayAbortedError(signal.reason);
+      }
+      return null;
+    }
+
+    switch (status.state) {
+      case 'pending':
+        return { taskId: status.taskId, message: 'queued' };
+      case 'submitted':
+        return { txHash: status.txHash, taskId: status.taskId, message: 'success' };
+      case 'mined':
+        return {
+          txHash: status.txHash,
+          taskId: status.taskId,
+          blockNumber: status.blockNumber,
+          gasUsed: status.gasUsed,
+          message: 'success',
+        };
+      case 'failed':
+        return null;
     }
   }
 
@@ -396,6 +1128,7 @@ export class KalpRelaySDK {
    *
    * @param params - Transaction parameters
    * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional execution options (e.g. wait for the receipt)
    * @returns Promise with transaction result
    *
    * @example
@@ -404,51 +1137,1084 @@ export class KalpRelaySDK {
    *   target: '0x...',
    *   data: encodedData,
    *   userAddress: '0x...',
-   * });
-   * console.log('Transaction hash:', result.txHash);
+   * }, undefined, { waitForReceipt: { confirmations: 2 } });
+   * console.log('Inner call succeeded:', result.innerCallSuccess);
    * ```
    */
   async executeRelay(
     params: RelayTransactionParams,
-    chainId?: number
+    chainId?: number,
+    options: RelayExecutionOptions = {}
   ): Promise<RelayResult> {
     const targetChainId = chainId ?? this.currentChainId;
+    const logFields: RelayLogFields = {
+      requestId: options.requestId ?? createRequestId(),
+      chainId: targetChainId,
+      target: params.target,
+    };
 
-    console.log(`🚀 Executing relay transaction on chain ${targetChainId}`);
+    this.logger.info('Executing relay transaction', logFields);
 
-    // Step 1: Get sponsor address from chain config
+    const { signal } = options;
+    const simulateOptions = options.simulate === true ? {} : options.simulate || undefined;
+
+    // Step 1: Resolve the sponsor, apply sponsor policies and build the typed data
+    const prepared = await this.prepareRelayRequest(params, targetChainId, {
+      requestId: logFields.requestId,
+      signal,
+      simulate: simulateOptions && { targetAbi: simulateOptions.targetAbi },
+    });
+
+    // Step 2: Sign the relay request with EIP-712
+    const signed = await this.signRelay(prepared, { signal });
+
+    // Optional pre-flight: simulate the signed KalpRelayer call from an authorized relayer
+    const relayerSender = simulateOptions?.relayerSender;
+    if (simulateOptions && relayerSender) {
+      await this.trackStage('simulate', logFields, () =>
+        this.simulateRelayerCall(params, targetChainId, {
+          ...simulateOptions,
+          relayerSender,
+          signature: signed.signature,
+          sponsorAddress: signed.message.sponsor,
+          signal,
+        }),
+        signal
+      );
+    }
+
+    // Step 3: Submit to relay backend, optionally waiting for the receipt
+    return this.submitSignedRelay(signed, {
+      requestId: logFields.requestId,
+      waitForReceipt: options.waitForReceipt,
+      waitForTask: options.waitForTask,
+      signal,
+    });
+  }
+
+  /**
+   * Execute several calls as one gasless relay, with a single signature
+   *
+   * The calls are wrapped in one aggregated call to `executeBatch` on the
+   * ERC-2771-aware batch forwarder at `forwarderAddress`, which passes the user
+   * on to targets that trust it. The forwarder reads the user the relayer
+   * appended, so the chain needs `relayerAppendsSender`. Batches where no call depends on
+   * `msg.sender` (e.g. facilitator transfers carrying their own permits) may
+   * set `senderIndependent` instead and go through Multicall3 `aggregate3`;
+   * targets then see Multicall3 as the sender.
+   *
+   * Waits for the receipt unless `waitForReceipt: false`, since per-call
+   * results are decoded from it. In `atomic` mode a failing call reverts the
+   * whole batch (raising RelayInnerCallFailedError); in `bestEffort` mode it
+   * is reported in `calls` and the other calls still take effect.
+   *
+   * @param params - Calls and the user they are relayed for
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Batch mode, aggregating contract and execution options
+   * @returns Promise with the transaction result and per-call outcomes
+   *
+   * @example
+   * ```typescript
+   * const { calls } = await sdk.executeRelayBatch(
+   *   {
+   *     calls: [
+   *       { target: TOKEN, data: approveData },
+   *       { target: VAULT, data: depositData, abi: VAULT_ABI },
+   *     ],
+   *     userAddress,
+   *   },
+   *   undefined,
+   *   { forwarderAddress: BATCH_FORWARDER_ADDRESS }
+   * );
+   * console.log('Shares minted:', calls?.[1].returnValue);
+   * ```
+   */
+  async executeRelayBatch(
+    params: RelayBatchParams,
+    chainId?: number,
+    options: RelayBatchOptions = {}
+  ): Promise<RelayBatchResult> {
+    const { mode = 'atomic', forwarderAddress, senderIndependent, multicallAddress, ...executionOptions } = options;
+    const requestId = executionOptions.requestId ?? createRequestId();
+
+    if (!isValidAddress(params.userAddress)) {
+      throw new Error('Invalid user address');
+    }
+
+    // The forwarder acts for the user the relayer appended; a relayer that forwards data unchanged appends none
+    if (forwarderAddress && !this.getChainConfig(chainId).relayerAppendsSender) {
+      throw new Error(
+        'Batch forwarders need a relayer that appends the verified user (relayerAppendsSender); ' +
+          'use KalpSenderRelayer, or set senderIndependent without a forwarder'
+      );
+    }
+
+    const batch = encodeRelayBatch(params.calls, {
+      mode,
+      forwarderAddress,
+      senderIndependent,
+      multicallAddress,
+    });
+
+    this.logger.info('Executing relay batch', {
+      requestId,
+      chainId: chainId ?? this.currentChainId,
+      target: batch.target,
+      callCount: params.calls.length,
+      mode,
+    });
+
+    // Wait for the receipt unless told not to: per-call results come from it
+    const targetAbi = forwarderAddress ? BATCH_FORWARDER_ABI : MULTICALL3_ABI;
+    const waitForReceipt: false | WaitForRelayOptions =
+      executionOptions.waitForReceipt === false
+        ? false
+        : {
+            targetAbi,
+            ...(executionOptions.waitForReceipt === true ? {} : executionOptions.waitForReceipt),
+          };
+
+    const result = await this.executeRelay(
+      {
+        target: batch.target,
+        data: batch.data,
+        userAddress: params.userAddress,
+        deadline: params.deadline,
+      },
+      chainId,
+      { ...executionOptions, requestId, waitForReceipt }
+    );
+
+    if (!waitForReceipt) {
+      return { ...result, batchTarget: batch.target };
+    }
+
+    const receipt = result as RelayReceipt;
+    return {
+      ...receipt,
+      batchTarget: batch.target,
+      calls: receipt.innerCallSuccess
+        ? decodeRelayBatchResults(params.calls, receipt.relayEvent.result)
+        : undefined,
+    };
+  }
+
+  /**
+   * Submit a relay request signed with `signRelay()`, possibly in another process
+   *
+   * @param envelope - Signed request (validated before submission)
+   * @param options - Optional correlation ID, abort signal and waiting options
+   * @returns Promise with transaction result (a RelayReceipt when waiting for the receipt)
+   * @throws Error if the envelope is malformed, targets another relayer or has expired
+   * @throws RelaySignatureMismatchError if the signature was not made by the request's user
+   * @throws RelayDomainMismatchError if `verifyRelayDomain` is enabled and the relayer uses another domain
+   */
+  async submitSignedRelay(
+    envelope: SignedRelayRequest,
+    options: SubmitSignedRelayOptions = {}
+  ): Promise<RelayResult> {
+    const signed = parseSignedRelay(envelope);
+    const targetChainId = signed.chainId;
+    const chainConfig = this.getChainConfig(targetChainId);
+    const { message } = signed;
+    const { signal } = options;
+    const logFields: RelayLogFields = {
+      requestId: options.requestId ?? signed.requestId ?? createRequestId(),
+      chainId: targetChainId,
+      target: message.target,
+    };
+
+    if (signed.domain.verifyingContract.toLowerCase() !== chainConfig.relayerAddress.toLowerCase()) {
+      throw new Error(
+        `Signed relay request is for relayer ${signed.domain.verifyingContract}, ` +
+          `but chain ${targetChainId} uses ${chainConfig.relayerAddress}`
+      );
+    }
+    const deadline = getSignedRelayMessage(signed).deadline;
+    if (deadline !== undefined && deadline <= BigInt(Math.floor(Date.now() / 1000))) {
+      throw new Error('Signed relay request has expired');
+    }
+
+    // Catch bad signatures (and, if enabled, misconfigured domains) before the relayer rejects them on-chain
+    await this.trackStage('submit', logFields, () =>
+      this.verifyRelaySignature(signed, { checkDomain: this.config.verifyRelayDomain, signal }),
+      signal
+    );
+
+    // Reserve the user's daily quota when the payload is posted; a check made at signing time can race other relays
+    const quota = findSponsorPolicy(this.config.sponsorPolicies, message.sponsor)?.dailyUserQuota;
+    const quotaStore = this.config.quotaStore ?? this.memoryQuotaStore;
+    const reserveQuota = quota === undefined
+      ? undefined
+      : async () => {
+        const quotaKey = await reserveDailyQuota(
+          quotaStore,
+          { chainId: targetChainId, sponsorAddress: message.sponsor, userAddress: message.user },
+          quota
+        );
+        return () => releaseDailyQuota(quotaStore, quotaKey);
+      };
+
+    const submitted = await this.trackStage('submit', logFields, () =>
+      this.submitRelayRequest(signed, logFields, signal, reserveQuota),
+      signal
+    );
+
+    let result: RelayResult;
+
+    const { txHash, taskId } = submitted;
+    if (txHash) {
+      result = { ...submitted, txHash, requestId: logFields.requestId };
+    } else if (taskId) {
+      // Queued by the relay API: poll the task until it has a transaction hash
+      this.logger.info('Relay request queued', { ...logFields, taskId });
+      this.events.emit('queued', {
+        correlationId: logFields.requestId,
+        chainId: targetChainId,
+        taskId,
+      });
+
+      const status = await this.trackStage('submit', logFields, () =>
+        this.waitForTask(taskId, { ...options.waitForTask, until: 'submitted', signal }, targetChainId),
+        signal
+      );
+
+      result = {
+        ...submitted,
+        txHash: status.txHash,
+        requestId: logFields.requestId,
+        ...(status.state === 'mined' && { blockNumber: status.blockNumber, gasUsed: status.gasUsed }),
+      };
+    } else {
+      throw new RelaySubmissionError('Relay API returned neither a transaction hash nor a task ID', submitted);
+    }
+
+    this.logger.info('Relay request submitted', { ...logFields, txHash: result.txHash });
+    this.events.emit('submitted', {
+      correlationId: logFields.requestId,
+      chainId: targetChainId,
+      result,
+    });
+
+    // Optionally wait for the transaction to be mined
+    if (options.waitForReceipt) {
+      const waitOptions = options.waitForReceipt === true ? {} : options.waitForReceipt;
+      return this.waitForRelay(result, { signal, ...waitOptions }, targetChainId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Verify a signed relay request without submitting it
+   *
+   * Recovers the signer from the EIP-712 typed data hash and compares it to the
+   * request's user. With `checkDomain`, the signed domain separator is also
+   * compared with the relayer contract's `eip712Domain()` (or
+   * `DOMAIN_SEPARATOR()`), which catches a misconfigured `domainName` or
+   * `domainVersion` before the relayer rejects the request on-chain.
+   *
+   * @param envelope - Signed request returned by `signRelay()`
+   * @param options - Optional on-chain domain check and abort signal
+   * @returns Recovered signer and domain separators
+   * @throws RelaySignatureMismatchError if the signature was not made by the request's user
+   * @throws RelayDomainMismatchError if the relayer contract uses a different domain
+   */
+  async verifyRelaySignature(
+    envelope: SignedRelayRequest,
+    options: VerifyRelaySignatureOptions = {}
+  ): Promise<RelaySignatureVerification> {
+    const signed = parseSignedRelay(envelope);
+    const { signal } = options;
+    const signer = recoverRelaySigner(signed);
+
+    if (!signer || signer.toLowerCase() !== signed.message.user.toLowerCase()) {
+      throw new RelaySignatureMismatchError(signed.message.user, signer);
+    }
+
+    const domainSeparator = computeDomainSeparator(signed.domain);
+    if (!options.checkDomain) {
+      return { signer, domainSeparator };
+    }
+
+    const relayerAddress = signed.domain.verifyingContract;
+    const provider = this.getProvider(signed.chainId);
+    let onChainDomain: OnChainEip712Domain | null = null;
+    let onChainDomainSeparator: string | null;
+
+    try {
+      onChainDomain = await abortable<OnChainEip712Domain>(fetchEip712Domain(relayerAddress, provider), signal);
+      onChainDomainSeparator = computeDomainSeparator(onChainDomain);
+    } catch (error) {
+      if (error instanceof RelayAbortedError) {
+        throw error;
+      }
+      // Relayers deployed before ERC-5267 may still expose the separator itself
+      onChainDomainSeparator = await abortable<string | null>(fetchDomainSeparator(relayerAddress, provider), signal);
+    }
+
+    if (!onChainDomainSeparator) {
+      throw new Error(`Relayer ${relayerAddress} exposes neither eip712Domain() nor DOMAIN_SEPARATOR()`);
+    }
+
+    if (onChainDomainSeparator.toLowerCase() !== domainSeparator.toLowerCase()) {
+      throw new RelayDomainMismatchError(
+        relayerAddress,
+        signed.domain,
+        onChainDomain,
+        domainSeparator,
+        onChainDomainSeparator
+      );
+    }
+
+    return { signer, domainSeparator, onChainDomainSeparator };
+  }
+
+  /**
+   * Get the status of a relay task queued by the relay API
+   *
+   * @param taskId - Task ID returned on submission (`RelayResult.taskId`)
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param signal - Optional abort signal for the status request
+   * @returns Promise with the typed task status
+   * @throws RelayHttpError if the status endpoint responds with an HTTP error
+   * @throws RelaySubmissionError if the status cannot be fetched or parsed
+   * @throws RelayAbortedError if the signal aborts
+   */
+  async getRelayStatus(
+    taskId: string,
+    chainId?: number,
+    signal?: AbortSignal
+  ): Promise<RelayTaskStatus> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const chainConfig = this.getChainConfig(targetChainId);
+    const relayApiUrl = chainConfig.relayApiUrl || this.config.relayApiUrl!;
+    const statusUrl = chainConfig.relayStatusUrl || this.config.relayStatusUrl || `${relayApiUrl}/status`;
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['apiKey'] = this.config.apiKey;
+    }
+
+    try {
+      const response = await withTimeout(
+        fetch(`${statusUrl}/${encodeURIComponent(taskId)}`, { headers, signal }),
+        this.config.timeout!,
+        undefined,
+        signal
+      );
+
+      if (!response.ok) {
+        throw await createRelayHttpError(response);
+      }
+
+      return parseRelayTaskStatus(taskId, await response.json());
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RelayAbortedError(signal.reason);
+      }
+      if (error instanceof RelayHttpError) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown relay error';
+      throw new RelaySubmissionError(`Failed to get relay task status: ${message}`, error);
+    }
+  }
+
+  /**
+   * Poll a queued relay task until it is mined (or submitted)
+   *
+   * Polls `getRelayStatus` with a growing interval through
+   * `pending → submitted → mined`.
+   *
+   * @param taskId - Task ID returned on submission (`RelayResult.taskId`)
+   * @param options - Target state, timeout, polling backoff and status callback
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @returns Promise with the submitted or mined task status
+   * @throws RelayTaskFailedError if the task fails
+   * @throws RequestTimeoutError if the target state is not reached in time
+   *
+   * @example
+   * ```typescript
+   * const status = await sdk.waitForTask(result.taskId!, {
+   *   onStatus: (status) => setStatus(status.state),
+   * });
+   * console.log('Mined in block', status.blockNumber);
+   * ```
+   */
+  async waitForTask(
+    taskId: string,
+    options: WaitForTaskOptions = {},
+    chainId?: number
+  ): Promise<RelayTaskSubmitted | RelayTaskMined> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const until = options.until ?? 'mined';
+    const timeout = options.timeout ?? DEFAULTS.TASK_TIMEOUT;
+    const maxPollInterval = options.maxPollInterval ?? DEFAULTS.TASK_MAX_POLL_INTERVAL;
+    const backoffMultiplier = options.backoffMultiplier ?? DEFAULTS.TASK_BACKOFF_MULTIPLIER;
+    const startedAt = Date.now();
+
+    let pollInterval = options.pollInterval ?? DEFAULTS.TASK_POLL_INTERVAL;
+    let previousState: RelayTaskState | undefined;
+
+    for (;;) {
+      const status = await this.getRelayStatus(taskId, targetChainId, options.signal);
+
+      if (status.state !== previousState) {
+        previousState = status.state;
+        this.logger.debug('Relay task status changed', { chainId: targetChainId, ...status });
+        options.onStatus?.(status);
+      }
+
+      if (status.state === 'failed') {
+        throw new RelayTaskFailedError(status);
+      }
+      if (status.state === 'mined' || (status.state === 'submitted' && until === 'submitted')) {
+        return status;
+      }
+
+      const elapsed = Date.now() - startedAt;
+      if (elapsed >= timeout) {
+        throw new RequestTimeoutError({ taskId, timeout, state: status.state });
+      }
+
+      await sleep(Math.min(pollInterval, timeout - elapsed), options.signal);
+      pollInterval = Math.min(pollInterval * backoffMultiplier, maxPollInterval);
+    }
+  }
+
+  /**
+   * Resolve the sponsor address for a request
+   *
+   * Uses the chain's `sponsorResolver` when configured, caching results per
+   * chain, target, user and app for `sponsorCacheTtl`. Falls back to the
+   * chain's static `sponsorAddress` when no resolver is configured or the
+   * resolver returns no address.
+   *
+   * @param params - Transaction parameters
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param signal - Optional abort signal for the resolver request
+   * @returns Promise with the sponsor address
+   * @throws SponsorFetchError if the resolver fails or returns an invalid address
+   * @throws RelayAbortedError if the signal aborts
+   */
+  async resolveSponsor(
+    params: Pick<RelayTransactionParams, 'target' | 'userAddress'>,
+    chainId?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const chainConfig = this.getChainConfig(targetChainId);
+    const resolver = chainConfig.sponsorResolver;
+
+    if (!resolver) {
+      return chainConfig.sponsorAddress;
+    }
+
+    const context: SponsorResolutionContext = {
+      chainId: targetChainId,
+      target: params.target,
+      userAddress: params.userAddress,
+      appId: this.config.appId,
+    };
+
+    const cacheKey = [targetChainId, params.target, params.userAddress, this.config.appId ?? '']
+      .join(':')
+      .toLowerCase();
+    const cached = this.sponsorCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let sponsorAddress: string | null | undefined;
+    try {
+      if (typeof resolver === 'function') {
+        sponsorAddress = await abortable(Promise.resolve(resolver(context)), signal);
+      } else {
+        // Only the resolver's own headers: the Kalp API key is not meant for third-party endpoints
+        const headers: Record<string, string> = {
+          'Content-Type': 'application/json',
+          ...resolver.headers,
+        };
+
+        const response = await withTimeout(
+          fetch(resolver.url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(context),
+            signal,
+          }),
+          this.config.timeout!,
+          undefined,
+          signal
+        );
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        sponsorAddress = data.sponsorAddress ?? data.sponsor ?? data.result?.sponsorAddress;
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new RelayAbortedError(signal.reason);
+      }
+      this.logger.error('Sponsor resolution failed', { chainId: targetChainId, target: params.target, error });
+      throw new SponsorFetchError(error instanceof Error ? error.message : error);
+    }
+
+    if (!sponsorAddress) {
+      this.logger.debug('Sponsor resolver returned no sponsor, using static sponsor', {
+        chainId: targetChainId,
+        target: params.target,
+        sponsorAddress: chainConfig.sponsorAddress,
+      });
+      return chainConfig.sponsorAddress;
+    }
+
+    if (!isValidAddress(sponsorAddress)) {
+      throw new SponsorFetchError(`Sponsor resolver returned an invalid address: ${sponsorAddress}`);
+    }
+
+    this.sponsorCache.set(cacheKey, sponsorAddress);
+    return sponsorAddress;
+  }
+
+  /**
+   * Clear cached sponsor resolutions
+   */
+  clearSponsorCache(): void {
+    this.sponsorCache.clear();
+  }
+
+  /**
+   * Evaluate configured sponsor policies before anything is signed
+   * @private
+   */
+  private async applySponsorPolicies(
+    params: RelayTransactionParams,
+    sponsorAddress: string,
+    chainId: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!this.config.sponsorPolicies) {
+      return sponsorAddress;
+    }
+
+    const resolvedSponsor = await evaluateSponsorPolicies(
+      this.config.sponsorPolicies,
+      {
+        chainId,
+        sponsorAddress,
+        target: params.target,
+        data: params.data,
+        userAddress: params.userAddress,
+      },
+      {
+        quotaStore: this.config.quotaStore ?? this.memoryQuotaStore,
+        estimateGas: async (sponsor) => {
+          const estimate = await this.estimateRelayGas(params, chainId, { sponsorAddress: sponsor, signal });
+          return estimate.gasEstimate;
+        },
+      }
+    );
+
+    if (!isValidAddress(resolvedSponsor)) {
+      throw new Error('Invalid sponsor address returned by sponsor policy');
+    }
+
+    if (resolvedSponsor !== sponsorAddress) {
+      this.logger.info('Sponsor policy rerouted request', {
+        chainId,
+        target: params.target,
+        from: sponsorAddress,
+        to: resolvedSponsor,
+      });
+    }
+
+    return resolvedSponsor;
+  }
+
+  /**
+   * Simulate a relay call without signing or submitting anything
+   *
+   * Performs an `eth_call` of the target call from the relayer contract with
+   * exactly the calldata the chain's relayer forwards: `params.data`, followed
+   * by the user's address when the relayer appends it (`relayerAppendsSender`). When
+   * `options.relayerSender` and `options.signature` are given, the
+   * `KalpRelayer.executeRelay` wrapper call is simulated from that relayer too.
+   *
+   * @param params - Transaction parameters
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional ABI for decoding, wrapper simulation settings and abort signal
+   * @returns Promise with the target's return data
+   * @throws RelaySimulationError with the decoded revert reason if a call would revert
+   * @throws RelayAbortedError if `options.signal` aborts
+   *
+   * @example
+   * ```typescript
+   * const simulation = await sdk.simulateRelay(
+   *   { target: COUNTER_ADDRESS, data, userAddress },
+   *   undefined,
+   *   { targetAbi: COUNTER_ABI }
+   * );
+   * console.log('Would return:', simulation.decoded);
+   * ```
+   */
+  async simulateRelay(
+    params: RelayTransactionParams,
+    chainId?: number,
+    options: SimulateRelayOptions = {}
+  ): Promise<RelaySimulationResult> {
+    const targetChainId = chainId ?? this.currentChainId;
+
+    const simulation = await this.simulateTargetCall(params, targetChainId, options.targetAbi, options.signal);
+
+    if (options.relayerSender) {
+      if (!options.signature) {
+        throw new Error('A relay request signature is required to simulate the relayer call');
+      }
+
+      await this.simulateRelayerCall(params, targetChainId, {
+        ...options,
+        relayerSender: options.relayerSender,
+        signature: options.signature,
+        sponsorAddress: options.sponsorAddress ?? this.getChainConfig(targetChainId).sponsorAddress,
+      });
+
+      return { ...simulation, wrapperSimulated: true };
+    }
+
+    return simulation;
+  }
+
+  /**
+   * Estimate the gas and sponsored cost of a relay
+   *
+   * With `options.relayerSender` and `options.signature`, estimates
+   * `KalpRelayer.executeRelay` exactly as the relayer would send it. Otherwise
+   * (e.g. before the user has signed) the target call is estimated from the
+   * relayer contract; that estimate is for a transaction of its own, so its
+   * intrinsic and calldata gas are replaced by those of the relay transaction
+   * plus the relayer's execution overhead. The gas estimate is combined with
+   * the provider's current fee data.
+   *
+   * @param params - Transaction parameters
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional relayer estimation settings, gas buffer and abort signal
+   * @returns Promise with gas units, suggested limit and fee in native currency
+   * @throws RelaySimulationError if the call would revert
+   * @throws RelayAbortedError if `options.signal` aborts
+   *
+   * @example
+   * ```typescript
+   * const estimate = await sdk.estimateRelayGas({ target, data, userAddress });
+   * console.log(`Sponsored cost: up to ${estimate.estimatedFeeFormatted} ETH`);
+   * ```
+   */
+  async estimateRelayGas(
+    params: RelayTransactionParams,
+    chainId?: number,
+    options: EstimateRelayGasOptions = {}
+  ): Promise<RelayGasEstimate> {
+    const targetChainId = chainId ?? this.currentChainId;
     const chainConfig = this.getChainConfig(targetChainId);
-    const sponsorAddress = chainConfig.sponsorAddress;
+    const provider = this.getProvider(targetChainId);
+
+    if (!isValidAddress(params.target)) {
+      throw new Error('Invalid target contract address');
+    }
+    if (!isValidAddress(params.userAddress)) {
+      throw new Error('Invalid user address');
+    }
+
+    const relayerInterface = new ethers.Interface(RELAYER_ABI);
+    const sponsorAddress = options.sponsorAddress ?? chainConfig.sponsorAddress;
+    const useRelayer = Boolean(options.relayerSender && options.signature);
+
+    if (options.relayerSender && !options.signature) {
+      throw new Error('A relay request signature is required to estimate the relayer call');
+    }
+    if (useRelayer && (chainConfig.relayRequestVersion ?? 1) !== 1) {
+      throw new Error('Relayer call estimation is only supported for RelayRequest v1');
+    }
+
+    const targetCallData = this.relayedCallData(params, chainConfig);
+    const relayerCallData = relayerInterface.encodeFunctionData('executeRelay', [
+      params.target,
+      params.data,
+      params.userAddress,
+      options.signature ?? PLACEHOLDER_SIGNATURE,
+      sponsorAddress,
+    ]);
+
+    const estimateGas = async (tx: { from: string; to: string; data: string }, stage: string) => {
+      try {
+        return BigInt(await provider.estimateGas(tx));
+      } catch (error) {
+        const revertData = extractRevertData(error);
+        if (revertData === null) {
+          throw error;
+        }
+        throw new RelaySimulationError(decodeRevertReason(revertData), {
+          stage,
+          target: params.target,
+          chainId: targetChainId,
+        });
+      }
+    };
+
+    this.logger.debug('Estimating relay gas', { chainId: targetChainId, target: params.target });
+
+    const [gasResult, feeData, latestBlock] = await abortable(Promise.all([
+      useRelayer
+        ? estimateGas(
+          { from: options.relayerSender!, to: chainConfig.relayerAddress, data: relayerCallData },
+          'relayer'
+        )
+        : estimateGas(
+          { from: chainConfig.relayerAddress, to: params.target, data: targetCallData },
+          'target'
+        ),
+      provider.getFeeData(),
+      provider.getBlock('latest'),
+    ]), options.signal);
+
+    // Paid once by the relay transaction: base cost, relayer calldata and the wrapper's own execution
+    const relayTransactionGas = DEFAULTS.TX_BASE_GAS + calldataGas(relayerCallData) + DEFAULTS.RELAYER_EXECUTION_OVERHEAD;
+
+    let targetCallGas: bigint;
+    let relayerOverheadGas: bigint;
+
+    if (useRelayer) {
+      // The relayer estimate already covers everything; attribute the fixed part to the wrapper
+      relayerOverheadGas = relayTransactionGas < gasResult ? relayTransactionGas : gasResult;
+      targetCallGas = gasResult - relayerOverheadGas;
+    } else {
+      // The target estimate is for a standalone transaction; keep only the call's execution
+      const standaloneGas = DEFAULTS.TX_BASE_GAS + calldataGas(targetCallData);
+      targetCallGas = gasResult > standaloneGas ? gasResult - standaloneGas : 0n;
+      relayerOverheadGas = relayTransactionGas;
+    }
+
+    const gasEstimate = targetCallGas + relayerOverheadGas;
+    const bufferPercent = BigInt(options.gasBufferPercent ?? DEFAULTS.GAS_BUFFER_PERCENT);
+    const bufferGas = (gasEstimate * bufferPercent) / 100n;
+    const gasLimit = gasEstimate + bufferGas;
+
+    const maxFeePerGas = feeData.maxFeePerGas != null ? BigInt(feeData.maxFeePerGas) : undefined;
+    const gasPrice = feeData.gasPrice != null ? BigInt(feeData.gasPrice) : undefined;
+    const feePerGas = maxFeePerGas ?? gasPrice ?? 0n;
+    const estimatedFee = gasLimit * feePerGas;
+
+    return {
+      method: useRelayer ? 'relayer' : 'target',
+      gasEstimate,
+      gasLimit,
+      feePerGas,
+      estimatedFee,
+      estimatedFeeFormatted: ethers.formatEther(estimatedFee),
+      breakdown: {
+        targetCallGas,
+        relayerOverheadGas,
+        bufferGas,
+        baseFeePerGas: latestBlock?.baseFeePerGas != null
+          ? BigInt(latestBlock.baseFeePerGas)
+          : undefined,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas != null
+          ? BigInt(feeData.maxPriorityFeePerGas)
+          : undefined,
+        gasPrice,
+      },
+    };
+  }
+
+  /**
+   * Calldata the chain's relayer forwards to the target: the signed data, with the
+   * verified user appended when the relayer appends it (ERC-2771)
+   * @private
+   */
+  private relayedCallData(params: RelayTransactionParams, chainConfig: ChainConfig): string {
+    if (!chainConfig.relayerAppendsSender) {
+      return params.data;
+    }
+    return ethers.hexlify(ethers.concat([params.data, params.userAddress]));
+  }
+
+  /**
+   * eth_call the target as the chain's relayer would call it
+   * @private
+   */
+  private async simulateTargetCall(
+    params: RelayTransactionParams,
+    chainId: number,
+    targetAbi?: TargetAbi,
+    signal?: AbortSignal
+  ): Promise<RelaySimulationResult> {
+    if (!isValidAddress(params.target)) {
+      throw new Error('Invalid target contract address');
+    }
+    if (!isValidAddress(params.userAddress)) {
+      throw new Error('Invalid user address');
+    }
+
+    const chainConfig = this.getChainConfig(chainId);
+    const provider = this.getProvider(chainId);
+
+    const data = this.relayedCallData(params, chainConfig);
+
+    this.logger.debug('Simulating target call', { chainId, target: params.target });
+
+    let returnData: string;
+    try {
+      returnData = await abortable<string>(provider.call({
+        from: chainConfig.relayerAddress,
+        to: params.target,
+        data,
+      }), signal);
+    } catch (error) {
+      const revertData = extractRevertData(error);
+      if (revertData === null) {
+        throw error;
+      }
+
+      throw new RelaySimulationError(decodeRevertReason(revertData, targetAbi), {
+        stage: 'target',
+        target: params.target,
+        chainId,
+      });
+    }
+
+    const result: RelaySimulationResult = { returnData, wrapperSimulated: false };
+
+    if (targetAbi) {
+      try {
+        const targetInterface = new ethers.Interface(targetAbi);
+        const fragment = targetInterface.getFunction(params.data.slice(0, 10));
+        if (fragment) {
+          result.decoded = Array.from(targetInterface.decodeFunctionResult(fragment, returnData));
+        }
+      } catch {
+        // Return data does not match the ABI; leave it undecoded
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * eth_call KalpRelayer.executeRelay from an authorized relayer
+   * @private
+   */
+  private async simulateRelayerCall(
+    params: RelayTransactionParams,
+    chainId: number,
+    options: SimulateRelayOptions & {
+      relayerSender: string;
+      signature: string;
+      sponsorAddress: string;
+    }
+  ): Promise<void> {
+    const chainConfig = this.getChainConfig(chainId);
 
-    console.log(`💰 Using sponsor address: ${sponsorAddress}`);
+    if ((chainConfig.relayRequestVersion ?? 1) !== 1) {
+      throw new Error('Relayer call simulation is only supported for RelayRequest v1');
+    }
 
-    // Step 2: Sign the relay request with EIP-712
-    const signature = await this.signRelayRequest(params, sponsorAddress, targetChainId);
+    const provider = this.getProvider(chainId);
+    const relayerInterface = new ethers.Interface(RELAYER_ABI);
+
+    this.logger.debug('Simulating relayer call', {
+      chainId,
+      target: params.target,
+      relayerSender: options.relayerSender,
+    });
+
+    let returnData: string;
+    try {
+      returnData = await abortable<string>(provider.call({
+        from: options.relayerSender,
+        to: chainConfig.relayerAddress,
+        data: relayerInterface.encodeFunctionData('executeRelay', [
+          params.target,
+          params.data,
+          params.userAddress,
+          options.signature,
+          options.sponsorAddress,
+        ]),
+      }), options.signal);
+    } catch (error) {
+      const revertData = extractRevertData(error);
+      if (revertData === null) {
+        throw error;
+      }
+
+      // Relayer-level failures (e.g. "Invalid signature") are plain Error(string) reverts
+      throw new RelaySimulationError(decodeRevertReason(revertData), {
+        stage: 'relayer',
+        relayerAddress: chainConfig.relayerAddress,
+        chainId,
+      });
+    }
+
+    const [success, result] = relayerInterface.decodeFunctionResult('executeRelay', returnData);
+    if (!success) {
+      throw new RelaySimulationError(decodeRevertReason(result, options.targetAbi), {
+        stage: 'target',
+        target: params.target,
+        chainId,
+      });
+    }
+  }
 
-    // Log signed transaction data
-    console.log({
+  /**
+   * Wait for a relayed transaction to be mined and confirmed
+   *
+   * Polls the chain's provider for the receipt and decodes the KalpRelayer
+   * `RelayExecuted` event. The relayer does not revert when the target call
+   * fails, so `innerCallSuccess` (not the receipt status) tells whether the
+   * user's call actually went through. A failed target call throws
+   * RelayInnerCallFailedError with the decoded reason, unless
+   * `throwOnInnerCallFailure` is false, in which case `revertData` and
+   * `revertReason` are reported on the receipt instead.
+   *
+   * @param result - Result returned by executeRelay or sendTokenTransfer
+   * @param options - Confirmations, timeout and polling interval
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @returns Promise with the confirmed relay receipt
+   * @throws RequestTimeoutError if the transaction is not confirmed in time
+   * @throws RelaySubmissionError if the relay transaction itself reverted
+   * @throws RelayInnerCallFailedError if the target call failed
+   *
+   * @example
+   * ```typescript
+   * const result = await sdk.executeRelay(params);
+   * try {
+   *   await sdk.waitForRelay(result, { confirmations: 2, targetAbi: COUNTER_ABI });
+   * } catch (error) {
+   *   if (error instanceof RelayInnerCallFailedError) {
+   *     console.error('Target call reverted:', error.revertReason.reason);
+   *   }
+   * }
+   * ```
+   */
+  async waitForRelay(
+    result: RelayResult,
+    options: WaitForRelayOptions = {},
+    chainId?: number
+  ): Promise<RelayReceipt> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const logFields: RelayLogFields = {
+      requestId: result.requestId ?? createRequestId(),
       chainId: targetChainId,
-      contractAddress: params.target,
-      userAddress: params.userAddress,
-      data: params.data,
-      userSignature: signature,
+      txHash: result.txHash,
+    };
+
+    const relayReceipt = await this.trackStage('confirm', logFields, () =>
+      this.confirmRelay(result, options, logFields),
+      options.signal
+    );
+
+    this.events.emit('confirmed', {
+      correlationId: logFields.requestId,
+      chainId: targetChainId,
+      receipt: relayReceipt,
     });
 
-    // Step 3: Submit to relay backend
-    const result = await this.submitRelayRequest(
-      params,
-      signature,
-      sponsorAddress,
-      targetChainId
+    return relayReceipt;
+  }
+
+  /**
+   * Wait for a relay transaction and decode the inner call outcome
+   * @private
+   */
+  private async confirmRelay(
+    result: RelayResult,
+    options: WaitForRelayOptions,
+    logFields: RelayLogFields
+  ): Promise<RelayReceipt> {
+    if (!result.txHash) {
+      throw new Error('Relay result does not contain a transaction hash');
+    }
+
+    const targetChainId = logFields.chainId;
+    const chainConfig = this.getChainConfig(targetChainId);
+    const provider = this.getProvider(targetChainId);
+
+    this.logger.debug('Waiting for relay transaction', logFields);
+
+    const { receipt, confirmations } = await waitForTransactionReceipt(
+      provider,
+      result.txHash,
+      {
+        confirmations: options.confirmations ?? DEFAULTS.RECEIPT_CONFIRMATIONS,
+        timeout: options.timeout ?? DEFAULTS.RECEIPT_TIMEOUT,
+        pollInterval: options.pollInterval ?? DEFAULTS.RECEIPT_POLL_INTERVAL,
+        signal: options.signal,
+      }
     );
 
-    return result;
+    if (receipt.status === 0) {
+      throw new RelaySubmissionError('Relay transaction reverted', {
+        txHash: result.txHash,
+        blockNumber: receipt.blockNumber,
+      });
+    }
+
+    const relayEvent = parseRelayExecutedEvent(receipt.logs, chainConfig.relayerAddress);
+    if (!relayEvent) {
+      throw new RelaySubmissionError('RelayExecuted event not found in transaction receipt', {
+        txHash: result.txHash,
+        relayerAddress: chainConfig.relayerAddress,
+      });
+    }
+
+    this.logger.info('Relay transaction mined', {
+      ...logFields,
+      blockNumber: receipt.blockNumber,
+      confirmations,
+      innerCallSuccess: relayEvent.success,
+    });
+
+    const relayReceipt: RelayReceipt = {
+      ...result,
+      blockNumber: Number(receipt.blockNumber),
+      gasUsed: receipt.gasUsed.toString(),
+      confirmations,
+      innerCallSuccess: relayEvent.success,
+      relayEvent,
+      logs: receipt.logs.map((log: RelayLog) => ({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+      })),
+    };
+
+    if (!relayEvent.success) {
+      relayReceipt.revertData = relayEvent.result;
+      relayReceipt.revertReason = decodeRevertReason(relayEvent.result, options.targetAbi);
+
+      this.logger.error('Relayed call failed', {
+        ...logFields,
+        reason: relayReceipt.revertReason.reason,
+      });
+
+      if (options.throwOnInnerCallFailure ?? true) {
+        throw new RelayInnerCallFailedError(relayReceipt.revertReason, relayReceipt);
+      }
+    }
+
+    return relayReceipt;
   }
 
   /**
    * Helper: Encode function call data with ERC-2771 format
    *
    * Appends the user's address to the encoded function data for ERC-2771 compatibility.
+   * Use it for relayers that forward `data` unchanged (KalpRelayer 1.0.0). Chains
+   * with `relayerAppendsSender` take `encodeFunctionData()` instead: their relayer
+   * appends the user whose signature it verified.
    *
    * @param functionSignature - Function signature (e.g., "increment()")
    * @param args - Function arguments
@@ -469,11 +2235,7 @@ export class KalpRelaySDK {
     args: unknown[] = [],
     userAddress: string
   ): string {
-    const functionInterface = new ethers.Interface([`function ${functionSignature}`]);
-    const baseCallData = functionInterface.encodeFunctionData(
-      functionSignature.split('(')[0],
-      args
-    );
+    const baseCallData = this.encodeFunctionData(functionSignature, args);
 
     // Append user address for ERC-2771 format
     return ethers.hexlify(ethers.concat([baseCallData, userAddress]));
@@ -482,16 +2244,124 @@ export class KalpRelaySDK {
   /**
    * Helper: Encode simple function call data (without ERC-2771)
    *
-   * @param functionSignature - Function signature (e.g., "increment()")
-   * @param args - Function arguments
+   * @param functionSignature - Function signature, optionally with parameter names and
+   *   tuple types (e.g., "increment()" or "submit((address to, uint256 amount)[] orders)")
+   * @param args - Function arguments (structs as objects or arrays)
    * @returns Encoded call data
    */
   encodeFunctionData(functionSignature: string, args: unknown[] = []): string {
-    const functionInterface = new ethers.Interface([`function ${functionSignature}`]);
-    return functionInterface.encodeFunctionData(
-      functionSignature.split('(')[0],
-      args
-    );
+    // Encode with the parsed fragment itself rather than looking it up by name
+    const fragment = ethers.FunctionFragment.from(functionSignature);
+    return new ethers.Interface([fragment]).encodeFunctionData(fragment, args);
+  }
+
+  /**
+   * Create a wrapper for gasless calls to a contract
+   *
+   * Every ABI function is exposed on `gasless` by name (or by full signature
+   * for overloads). Calls take the function arguments plus an optional
+   * trailing overrides object, wait for the receipt by default, and resolve
+   * with the decoded return value and events.
+   *
+   * @param address - Contract address
+   * @param abi - Contract ABI (human-readable or JSON)
+   * @param options - Default user address and chain for calls
+   * @returns Gasless contract wrapper
+   *
+   * @example
+   * ```typescript
+   * const token = sdk.contract(TOKEN_ADDRESS, TOKEN_ABI, { userAddress });
+   * const { returnValue, events } = await token.gasless.transfer(recipient, amount);
+   * console.log('Transferred:', returnValue, events[0]?.namedArgs.value);
+   * ```
+   */
+  contract(address: string, abi: TargetAbi, options: GaslessContractOptions = {}): GaslessContract {
+    return new GaslessContract(this, address, abi, options);
+  }
+
+  /**
+   * Register a permit flavor for token transfers, replacing any flavor with the same method
+   *
+   * @param flavor - Flavor to add (see `PermitFlavor`)
+   */
+  registerPermitFlavor(flavor: PermitFlavor): void {
+    this.permitFlavors.register(flavor);
+  }
+
+  /**
+   * Authorize every transfer of a token with a specific permit method
+   *
+   * @param tokenAddress - Token contract address
+   * @param method - Registered permit method (e.g. `'dai'` or `'eip3009'`)
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   *
+   * @example
+   * ```typescript
+   * sdk.setTokenPermitMethod(USDC_ADDRESS, 'eip3009');
+   * sdk.setTokenPermitMethod(DAI_ADDRESS, 'dai', 1);
+   * ```
+   */
+  setTokenPermitMethod(tokenAddress: string, method: PermitMethod, chainId?: number): void {
+    this.permitFlavors.setTokenMethod(chainId ?? this.currentChainId, tokenAddress, method);
+  }
+
+  /**
+   * Get a token's metadata (name, symbol, decimals, permit domain and method)
+   *
+   * Served from the token registry; uncached tokens are looked up on-chain.
+   *
+   * @param tokenAddress - ERC20 token contract address
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @returns Metadata of the token
+   */
+  async getTokenMetadata(tokenAddress: string, chainId?: number): Promise<TokenMetadata> {
+    const [metadata] = await this.getTokensMetadata([tokenAddress], chainId);
+    return metadata;
+  }
+
+  /**
+   * Get the metadata of several tokens, looking up uncached ones in a single Multicall3 call
+   *
+   * @param tokenAddresses - ERC20 token contract addresses
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @returns Metadata of each token, in the same order
+   */
+  async getTokensMetadata(tokenAddresses: string[], chainId?: number): Promise<TokenMetadata[]> {
+    const targetChainId = chainId ?? this.currentChainId;
+    return this.tokenRegistry.lookup(targetChainId, tokenAddresses, this.getProvider(targetChainId));
+  }
+
+  /**
+   * Get a token's decimals, cached per chain and token
+   *
+   * @param tokenAddress - ERC20 token contract address
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @returns Number of decimals of the token's base unit
+   * @throws Error if the token does not expose decimals()
+   */
+  async getTokenDecimals(tokenAddress: string, chainId?: number): Promise<number> {
+    const metadata = await this.getTokenMetadata(tokenAddress, chainId);
+    if (metadata.decimals === undefined) {
+      throw new Error(`Failed to get decimals for token ${tokenAddress}`);
+    }
+    return metadata.decimals;
+  }
+
+  /**
+   * Seed the token registry from a Uniswap-style token list
+   *
+   * @param list - Parsed token list JSON
+   * @param chainId - Only load the tokens of this chain (default: all chains)
+   * @returns Number of tokens loaded
+   *
+   * @example
+   * ```typescript
+   * const list = await (await fetch('https://tokens.uniswap.org')).json();
+   * sdk.loadTokenList(list);
+   * ```
+   */
+  loadTokenList(list: TokenList, chainId?: number): number {
+    return this.tokenRegistry.loadTokenList(list, chainId);
   }
 
   /**
@@ -503,6 +2373,7 @@ export class KalpRelaySDK {
    */
   setProvider(chainId: number, provider: EthersProvider): void {
     this.providers.set(chainId, provider);
+    this.relayerDomains.delete(chainId);
   }
 
   /**
@@ -526,17 +2397,150 @@ export class KalpRelaySDK {
     return provider;
   }
 
+  /**
+   * Ask the user to sign an EIP-2612 permit, emitting sign lifecycle events
+   * @private
+   */
+  private async requestPermitSignature(
+    params: Parameters<typeof signPermit>[0],
+    logFields: RelayLogFields,
+    signal?: AbortSignal
+  ): Promise<Awaited<ReturnType<typeof signPermit>>> {
+    this.logger.debug('Requesting EIP-2612 permit signature', {
+      ...logFields,
+      domain: params.domain,
+      nonce: params.nonce,
+      deadline: params.deadline,
+    });
+
+    return this.trackPermitSignature(
+      params.owner,
+      params.tokenAddress,
+      () => signPermit(params, this.signTypedData, signal),
+      logFields,
+      signal
+    );
+  }
+
+  /**
+   * Run a permit signing step, emitting sign lifecycle events
+   * @private
+   */
+  private async trackPermitSignature<T>(
+    owner: string,
+    tokenAddress: string,
+    sign: () => Promise<T>,
+    logFields: RelayLogFields,
+    signal?: AbortSignal,
+    kind: 'permit' | 'permitRevocation' = 'permit'
+  ): Promise<T> {
+    const signEvent = {
+      correlationId: logFields.requestId,
+      chainId: logFields.chainId,
+      kind,
+      userAddress: owner,
+      target: tokenAddress,
+    };
+    this.events.emit('signRequested', signEvent);
+
+    const permitSignature = await this.trackStage('sign', logFields, sign, signal);
+
+    this.logger.debug('Permit signature obtained', logFields);
+    this.events.emit('signed', signEvent);
+
+    return permitSignature;
+  }
+
+  /**
+   * Token decimals to convert amounts with, or undefined for raw amounts
+   * @private
+   */
+  private amountDecimals(amountFormat: AmountFormat | undefined, token: TokenMetadata): number | undefined {
+    if (amountFormat !== 'decimal') {
+      return undefined;
+    }
+    if (token.decimals === undefined) {
+      throw new Error(`Failed to get decimals for token ${token.address}`);
+    }
+    return token.decimals;
+  }
+
+  /**
+   * Fail fast if the owner cannot cover the transfer: checks the balance and,
+   * with `assertAllowance`, the standing allowance the transfer spends
+   * @private
+   */
+  private async assertSufficientFunds(
+    tokenAddress: string,
+    ownerAddress: string,
+    amount: bigint,
+    provider: EthersProvider,
+    assertAllowance?: () => Promise<void>
+  ): Promise<void> {
+    const [balance] = await Promise.all([
+      getTokenBalance(tokenAddress, ownerAddress, provider),
+      assertAllowance?.(),
+    ]);
+
+    if (balance < amount) {
+      throw new InsufficientBalanceError(tokenAddress, ownerAddress, amount, balance);
+    }
+  }
+
+  /**
+   * Fail fast if the facilitator has already recorded this permit as used
+   * @private
+   */
+  private async assertPermitUnused(
+    params: {
+      facilitatorAddress: string;
+      tokenAddress: string;
+      owner: string;
+      value: bigint;
+      deadline: bigint;
+      nonce: bigint;
+      mode: FacilitatorMode;
+      recipientCount?: number;
+    },
+    permitSignature: { v: number; r: string; s: string },
+    provider: EthersProvider
+  ): Promise<void> {
+    const permitHash = await calculateFacilitatorPermitHash(params, permitSignature, provider);
+    const used = await isPermitUsed(
+      params.facilitatorAddress,
+      params.tokenAddress,
+      permitHash,
+      provider
+    );
+
+    if (used) {
+      throw new PermitAlreadyUsedError({
+        facilitatorAddress: params.facilitatorAddress,
+        tokenAddress: params.tokenAddress,
+        permitHash,
+        mode: params.mode,
+      });
+    }
+  }
+
   /**
    * Execute a gasless ERC20 token transfer using EIP-2612 permit and KalpRelayer
    *
    * This high-level method abstracts the complexity of gasless token transfers by:
    * 1. Fetching the token's nonce for the user
    * 2. Generating an EIP-2612 permit signature
-   * 3. Encoding a call to the ERC20Facilitator contract
-   * 4. Executing the transaction via the KalpRelayer (gasless)
+   * 3. Checking the facilitator has not already consumed the permit
+   * 4. Encoding a call to the ERC20Facilitator contract
+   * 5. Executing the transaction via the KalpRelayer (gasless)
+   *
+   * Tokens without EIP-2612 (detected through the facilitator's `supportsPermit`)
+   * are transferred with a Permit2 signature instead. Other permit flavors (DAI
+   * permit, EIP-3009) are used when set with `permitMethod` or registered for the
+   * token with `setTokenPermitMethod()`.
    *
    * @param params - Token transfer parameters
    * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional execution options (e.g. wait for the receipt)
    * @returns Promise with transaction result
    *
    * @example
@@ -554,11 +2558,19 @@ export class KalpRelaySDK {
    */
   async sendTokenTransfer(
     params: TokenTransferParams,
-    chainId?: number
+    chainId?: number,
+    options: RelayExecutionOptions = {}
   ): Promise<RelayResult> {
     const targetChainId = chainId ?? this.currentChainId;
+    const requestId = options.requestId ?? createRequestId();
+    const logFields: RelayLogFields = {
+      requestId,
+      chainId: targetChainId,
+      target: params.facilitatorAddress,
+      token: params.tokenAddress,
+    };
 
-    console.log(`💸 Initiating gasless token transfer on chain ${targetChainId}`);
+    this.logger.info('Initiating gasless token transfer', logFields);
 
     // Validate addresses
     if (!isValidAddress(params.tokenAddress)) {
@@ -574,82 +2586,306 @@ export class KalpRelaySDK {
       throw new Error('Invalid facilitator address');
     }
 
-    // Convert amount to BigInt
-    const amount = typeof params.amount === 'string'
-      ? BigInt(params.amount)
-      : params.amount;
+    // Get provider and cached token metadata for the chain
+    const provider = this.getProvider(targetChainId);
+    const token = await this.trackStage('permit', logFields, () =>
+      this.getTokenMetadata(params.tokenAddress, targetChainId),
+      options.signal
+    );
+
+    // Convert amount to base units
+    const decimals = this.amountDecimals(params.amountFormat, token);
+    const amount = decimals !== undefined
+      ? parseTokenAmount(params.amount, decimals)
+      : typeof params.amount === 'string'
+        ? BigInt(params.amount)
+        : params.amount;
 
     if (amount <= 0n) {
       throw new Error('Amount must be greater than 0');
     }
 
-    // Get provider for the chain
+    this.logger.debug('Token transfer details', {
+      ...logFields,
+      from: params.userAddress,
+      to: params.recipient,
+      amount,
+    });
+
+    // An explicit method wins over the token's registered or remembered one;
+    // otherwise tokens without EIP-2612 are authorized through Permit2
+    let permitMethod =
+      params.permitMethod ??
+      this.permitFlavors.getTokenMethod(targetChainId, params.tokenAddress) ??
+      token.permitMethod;
+    if (!permitMethod) {
+      permitMethod = await this.trackStage('permit', logFields, () =>
+        detectPermitMethod(params.tokenAddress, params.facilitatorAddress, provider),
+        options.signal
+      );
+      this.tokenRegistry.setPermitMethod(targetChainId, params.tokenAddress, permitMethod);
+    }
+
+    const facilitatorCallData = await this.encodeFlavoredTransfer(
+      this.permitFlavors.get(permitMethod),
+      { ...params, tokenDomain: params.tokenDomain ?? token.permitDomain ?? undefined },
+      amount,
+      targetChainId,
+      logFields,
+      options.signal
+    );
+
+    // Execute relay transaction
+    const result = await this.executeRelay(
+      {
+        target: params.facilitatorAddress,
+        data: facilitatorCallData,
+        userAddress: params.userAddress,
+      },
+      targetChainId,
+      { ...options, requestId }
+    );
+
+    this.logger.info('Gasless token transfer submitted', { ...logFields, permitMethod, txHash: result.txHash });
+
+    return result;
+  }
+
+  /**
+   * Build, sign and redeem a transfer permit with a permit flavor
+   * @private
+   */
+  private async encodeFlavoredTransfer(
+    flavor: PermitFlavor,
+    params: TokenTransferParams,
+    amount: bigint,
+    targetChainId: number,
+    logFields: RelayLogFields,
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (flavor.requiresRelayedSender && !this.getChainConfig(targetChainId).relayerAppendsSender) {
+      throw new Error(
+        `Permit method "${flavor.method}" needs a relayer that appends the verified user (relayerAppendsSender); ` +
+        'use KalpSenderRelayer'
+      );
+    }
+
+    const context: PermitFlavorContext = {
+      tokenAddress: params.tokenAddress,
+      owner: params.userAddress,
+      facilitatorAddress: params.facilitatorAddress,
+      recipient: params.recipient,
+      amount,
+      deadline: calculateDeadline(params.deadline),
+      chainId: targetChainId,
+      provider: this.getProvider(targetChainId),
+      tokenDomain: params.tokenDomain,
+      facilitatorMode: params.facilitatorMode,
+      permit2Address: params.permit2Address,
+    };
+
+    // Step 1: Check the balance and allowance, and read the nonces and domain the permit depends on
+    const typedData = await this.trackStage('permit', logFields, async () => {
+      await this.assertSufficientFunds(
+        params.tokenAddress,
+        params.userAddress,
+        amount,
+        context.provider,
+        flavor.assertAllowance && (() => flavor.assertAllowance!(context))
+      );
+      return flavor.buildTypedData(context);
+    }, signal);
+
+    // Step 2: Ask the user to sign it
+    this.logger.debug('Requesting permit signature', {
+      ...logFields,
+      permitMethod: flavor.method,
+      domain: typedData.domain,
+      deadline: context.deadline,
+    });
+    const signature = await this.trackPermitSignature(
+      params.userAddress,
+      params.tokenAddress,
+      () => signPermitTypedData(typedData, this.signTypedData, signal),
+      logFields,
+      signal
+    );
+
+    // Permits that grant more than the transfer are revoked by a second signature
+    let revocationSignature: string | undefined;
+    if (flavor.buildRevocationTypedData) {
+      const revocation = await this.trackStage('permit', logFields, () =>
+        flavor.buildRevocationTypedData!(context, typedData),
+        signal
+      );
+      revocationSignature = await this.trackPermitSignature(
+        params.userAddress,
+        params.tokenAddress,
+        () => signPermitTypedData(revocation, this.signTypedData, signal),
+        logFields,
+        signal,
+        'permitRevocation'
+      );
+    }
+
+    // Step 3: Encode the facilitator call (flavors may check the permit is still unused)
+    return this.trackStage('permit', logFields, () =>
+      flavor.encodeCall(context, typedData, signature, revocationSignature),
+      signal
+    );
+  }
+
+  /**
+   * Execute a gasless ERC20 transfer to multiple recipients with a single permit
+   *
+   * Sums the recipient amounts, asks the user to sign one EIP-2612 permit for
+   * the total, and relays a call to `facilitateBulkTransferWithPermit` on the
+   * ERC20Facilitator contract.
+   *
+   * @param params - Bulk token transfer parameters
+   * @param chainId - Optional chain ID (uses current chain if not provided)
+   * @param options - Optional execution options (e.g. wait for the receipt)
+   * @returns Promise with transaction result and per-recipient breakdown
+   *
+   * @example
+   * ```typescript
+   * const result = await sdk.sendBulkTokenTransfer({
+   *   tokenAddress: '0x...',
+   *   recipients: [
+   *     { to: '0xAlice...', amount: '1000000000000000000' },
+   *     { to: '0xBob...', amount: '500000000000000000' },
+   *   ],
+   *   userAddress: '0x...',
+   *   facilitatorAddress: '0x...',
+   * });
+   * console.log('Total sent:', result.totalAmount.toString());
+   * ```
+   */
+  async sendBulkTokenTransfer(
+    params: BulkTokenTransferParams,
+    chainId?: number,
+    options: RelayExecutionOptions = {}
+  ): Promise<BulkTokenTransferResult> {
+    const targetChainId = chainId ?? this.currentChainId;
+    const requestId = options.requestId ?? createRequestId();
+    const logFields: RelayLogFields = {
+      requestId,
+      chainId: targetChainId,
+      target: params.facilitatorAddress,
+      token: params.tokenAddress,
+    };
+
+    this.logger.info('Initiating gasless bulk token transfer', logFields);
+
+    // Validate addresses
+    if (!isValidAddress(params.tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+    if (!isValidAddress(params.userAddress)) {
+      throw new Error('Invalid user address');
+    }
+    if (!isValidAddress(params.facilitatorAddress)) {
+      throw new Error('Invalid facilitator address');
+    }
+
+    // Get provider and cached token metadata for the chain
     const provider = this.getProvider(targetChainId);
+    const token = await this.trackStage('permit', logFields, () =>
+      this.getTokenMetadata(params.tokenAddress, targetChainId),
+      options.signal
+    );
 
-    console.log('📊 Token transfer details:');
-    console.log('  Token:', params.tokenAddress);
-    console.log('  From:', params.userAddress);
-    console.log('  To:', params.recipient);
-    console.log('  Amount:', amount.toString());
-
-    // Step 1: Get token metadata and nonce
-    console.log('🔍 Fetching token metadata and nonce...');
-    const [domain, nonce] = await Promise.all([
-      getTokenDomain(params.tokenAddress, targetChainId, provider),
-      getTokenNonce(params.tokenAddress, params.userAddress, provider),
-    ]);
+    // Validate recipients and compute the total to permit
+    const { recipients, totalAmount } = prepareBulkRecipients(
+      params.recipients,
+      this.amountDecimals(params.amountFormat, token)
+    );
+
+    this.logger.debug('Bulk transfer details', {
+      ...logFields,
+      from: params.userAddress,
+      recipientCount: recipients.length,
+      totalAmount,
+    });
 
-    console.log(`  Token name: ${domain.name}`);
-    console.log(`  Current nonce: ${nonce}`);
+    // Step 1: Check the balance and get token metadata and nonce (the permit grants the allowance it spends)
+    const [domain, nonce] = await this.trackStage('permit', logFields, async () => {
+      await this.assertSufficientFunds(params.tokenAddress, params.userAddress, totalAmount, provider);
+      return Promise.all([
+        params.tokenDomain ?? token.permitDomain ?? getTokenDomain(params.tokenAddress, targetChainId, provider),
+        getTokenNonce(params.tokenAddress, params.userAddress, provider),
+      ]);
+    }, options.signal);
 
     // Step 2: Calculate deadline
     const deadline = calculateDeadline(params.deadline);
-    console.log(`  Permit deadline: ${deadline} (${new Date(Number(deadline) * 1000).toISOString()})`);
 
-    // Step 3: Sign EIP-2612 permit
-    console.log('🔐 Requesting EIP-2612 permit signature...');
-    const permitSignature = await signPermit(
+    // Step 3: Sign a single EIP-2612 permit for the total amount
+    const permitSignature = await this.requestPermitSignature(
       {
         tokenAddress: params.tokenAddress,
         owner: params.userAddress,
         spender: params.facilitatorAddress,
-        value: amount,
+        value: totalAmount,
         nonce,
         deadline,
         chainId: targetChainId,
         domain,
       },
-      this.signTypedData
+      logFields,
+      options.signal
     );
 
-    console.log('✅ Permit signature obtained');
+    // Step 4: Make sure the facilitator has not already consumed this permit
+    const facilitatorMode = params.facilitatorMode ?? 'permit';
+    await this.trackStage('permit', logFields, () =>
+      this.assertPermitUnused(
+        {
+          facilitatorAddress: params.facilitatorAddress,
+          tokenAddress: params.tokenAddress,
+          owner: params.userAddress,
+          value: totalAmount,
+          deadline,
+          nonce,
+          mode: facilitatorMode,
+          recipientCount: recipients.length,
+        },
+        permitSignature,
+        provider
+      ),
+      options.signal
+    );
 
-    // Step 4: Encode facilitator call
-    const facilitatorCallData = encodeFacilitatorCall(
+    // Step 5: Encode bulk facilitator call
+    const facilitatorCallData = encodeBulkFacilitatorCall(
       {
         tokenAddress: params.tokenAddress,
         owner: params.userAddress,
-        recipient: params.recipient,
-        amount,
+        recipients,
+        totalAmount,
       },
       permitSignature,
-      deadline
+      deadline,
+      facilitatorMode
     );
 
-    // Step 5: Execute relay transaction
-    console.log('🚀 Executing gasless relay transaction...');
+    // Step 6: Execute relay transaction
     const result = await this.executeRelay(
       {
         target: params.facilitatorAddress,
         data: facilitatorCallData,
         userAddress: params.userAddress,
       },
-      targetChainId
+      targetChainId,
+      { ...options, requestId }
     );
 
-    console.log('✅ Gasless token transfer complete!');
-    console.log(`  Transaction hash: ${result.txHash}`);
+    this.logger.info('Gasless bulk token transfer submitted', { ...logFields, txHash: result.txHash });
 
-    return result;
+    return {
+      ...result,
+      totalAmount,
+      recipients,
+    };
   }
 }
@@ -0,0 +1,117 @@
+/**
+ * EIP-712 domain utilities
+ *
+ * Reads a contract's EIP-712 domain through ERC-5267 `eip712Domain()` and
+ * computes domain separators, so locally configured domains can be checked
+ * against what the contract actually verifies.
+ */
+
+import { ethers } from 'ethers';
+import type { OnChainEip712Domain } from './types';
+
+// Type alias for ethers provider
+type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
+
+/** ERC-5267 and legacy domain separator getters */
+export const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+];
+
+/** Domain fields in ERC-5267 `fields` bit order */
+const DOMAIN_FIELD_BITS = ['name', 'version', 'chainId', 'verifyingContract', 'salt'] as const;
+
+/**
+ * Read a contract's EIP-712 domain via ERC-5267 `eip712Domain()`
+ *
+ * Only the fields the contract marks as used are returned.
+ *
+ * @param address - Contract address
+ * @param provider - Ethers provider
+ * @returns The contract's EIP-712 domain
+ * @throws Error if the contract does not implement `eip712Domain()`
+ */
+export async function fetchEip712Domain(
+  address: string,
+  provider: EthersProvider
+): Promise<OnChainEip712Domain> {
+  const contract = new ethers.Contract(address, EIP712_DOMAIN_ABI, provider);
+
+  let result: any;
+  try {
+    result = await contract.eip712Domain();
+  } catch (error) {
+    throw new Error(`Failed to read eip712Domain() from ${address}: ${error}`);
+  }
+
+  return parseEip712Domain(result);
+}
+
+/**
+ * Keep the fields of a decoded `eip712Domain()` result that the contract marks as used
+ */
+export function parseEip712Domain(result: any): OnChainEip712Domain {
+  const fields = Number(result.fields);
+  const values = {
+    name: result.name as string,
+    version: result.version as string,
+    chainId: Number(result.chainId),
+    verifyingContract: ethers.getAddress(result.verifyingContract) as `0x${string}`,
+    salt: result.salt as `0x${string}`,
+  };
+
+  const domain: OnChainEip712Domain = {};
+  DOMAIN_FIELD_BITS.forEach((field, bit) => {
+    if (fields & (1 << bit)) {
+      (domain as Record<string, unknown>)[field] = values[field];
+    }
+  });
+
+  return domain;
+}
+
+/**
+ * Read a contract's `DOMAIN_SEPARATOR()`
+ *
+ * @returns The domain separator, or null if the contract does not expose it
+ */
+export async function fetchDomainSeparator(
+  address: string,
+  provider: EthersProvider
+): Promise<string | null> {
+  const contract = new ethers.Contract(address, EIP712_DOMAIN_ABI, provider);
+
+  try {
+    return await contract.DOMAIN_SEPARATOR();
+  } catch {
+    return null;
+  }
+}
+
+/** EIP712Domain field types, in canonical order */
+const DOMAIN_FIELD_TYPES: Record<(typeof DOMAIN_FIELD_BITS)[number], string> = {
+  name: 'string',
+  version: 'string',
+  chainId: 'uint256',
+  verifyingContract: 'address',
+  salt: 'bytes32',
+};
+
+/**
+ * EIP712Domain type for the fields a domain actually uses
+ *
+ * Wallets hash the domain with the `EIP712Domain` type they are given, so it
+ * must list exactly the fields present (e.g. `salt` without `chainId`).
+ */
+export function eip712DomainTypes(domain: Record<string, unknown>): Array<{ name: string; type: string }> {
+  return DOMAIN_FIELD_BITS.filter((field) => domain[field] !== undefined && domain[field] !== null).map(
+    (field) => ({ name: field, type: DOMAIN_FIELD_TYPES[field] })
+  );
+}
+
+/**
+ * Compute the EIP-712 domain separator of a domain
+ */
+export function computeDomainSeparator(domain: OnChainEip712Domain): string {
+  return ethers.TypedDataEncoder.hashDomain(domain);
+}
@@ -2,6 +2,8 @@
  * Custom error classes for KalpRelaySDK
  */
 
+import type { DecodedRevertReason, EIP2612Domain, OnChainEip712Domain, RelayTaskFailed } from './types';
+
 export class KalpRelayError extends Error {
   constructor(
     message: string,
@@ -41,6 +43,34 @@ export class RelaySubmissionError extends KalpRelayError {
   }
 }
 
+export class RelayHttpError extends RelaySubmissionError {
+  constructor(
+    public status: number,
+    public statusText: string,
+    public headers: Record<string, string>,
+    public body: unknown,
+    /** Delay requested by the Retry-After header of a 429/503 response, in milliseconds */
+    public retryAfter?: number
+  ) {
+    const bodyText = typeof body === 'string' ? body : JSON.stringify(body);
+    super(`HTTP ${status}: ${statusText} - ${bodyText}`, { status, body });
+    this.code = 'RELAY_HTTP_ERROR';
+    this.name = 'RelayHttpError';
+  }
+}
+
+export class RelaySubmissionUnconfirmedError extends RelaySubmissionError {
+  constructor(public idempotencyKey: string, details?: unknown) {
+    super(
+      `Relay request ${idempotencyKey} may already have been submitted and cannot be posted again ` +
+        'without confirming it; set idempotencyLookupUrl or check the relay API before resubmitting',
+      details
+    );
+    this.code = 'RELAY_SUBMISSION_UNCONFIRMED';
+    this.name = 'RelaySubmissionUnconfirmedError';
+  }
+}
+
 export class ChainNotSupportedError extends KalpRelayError {
   constructor(chainId: number) {
     super(
@@ -58,3 +88,146 @@ export class RequestTimeoutError extends KalpRelayError {
     this.name = 'RequestTimeoutError';
   }
 }
+
+export class RelayAbortedError extends KalpRelayError {
+  constructor(details?: unknown) {
+    super('Relay operation was aborted', 'RELAY_ABORTED', details);
+    this.name = 'RelayAbortedError';
+  }
+}
+
+export class RelayTaskFailedError extends KalpRelayError {
+  constructor(public status: RelayTaskFailed) {
+    super(`Relay task ${status.taskId} failed: ${status.reason}`, 'RELAY_TASK_FAILED', status);
+    this.name = 'RelayTaskFailedError';
+  }
+}
+
+export class RelaySignatureMismatchError extends KalpRelayError {
+  constructor(
+    public expectedSigner: string,
+    public recoveredSigner: string | null
+  ) {
+    super(
+      recoveredSigner
+        ? `Relay request was signed by ${recoveredSigner}, expected its user ${expectedSigner}`
+        : `Relay request signature is malformed, expected a signature by ${expectedSigner}`,
+      'RELAY_SIGNATURE_MISMATCH',
+      { expectedSigner, recoveredSigner }
+    );
+    this.name = 'RelaySignatureMismatchError';
+  }
+}
+
+export class RelayDomainMismatchError extends KalpRelayError {
+  constructor(
+    public relayerAddress: string,
+    public signedDomain: OnChainEip712Domain,
+    public onChainDomain: OnChainEip712Domain | null,
+    public domainSeparator: string,
+    public onChainDomainSeparator: string
+  ) {
+    const describe = (domain: OnChainEip712Domain) => `name "${domain.name}", version "${domain.version}"`;
+    super(
+      onChainDomain
+        ? `Relay request was signed for ${describe(signedDomain)}, but relayer ${relayerAddress} ` +
+            `verifies ${describe(onChainDomain)}; check domainName and domainVersion in the chain config`
+        : `Relay request domain separator ${domainSeparator} does not match relayer ${relayerAddress} ` +
+            `(${onChainDomainSeparator}); check domainName and domainVersion in the chain config`,
+      'RELAY_DOMAIN_MISMATCH',
+      { relayerAddress, signedDomain, onChainDomain, domainSeparator, onChainDomainSeparator }
+    );
+    this.name = 'RelayDomainMismatchError';
+  }
+}
+
+export class PermitDomainMismatchError extends KalpRelayError {
+  constructor(
+    public tokenAddress: string,
+    public domainSeparator: string,
+    public candidates: EIP2612Domain[]
+  ) {
+    super(
+      `None of the ${candidates.length} candidate EIP-712 domains of token ${tokenAddress} match its ` +
+        `DOMAIN_SEPARATOR() ${domainSeparator}; pass the token's domain as tokenDomain`,
+      'PERMIT_DOMAIN_MISMATCH',
+      { tokenAddress, domainSeparator, candidates }
+    );
+    this.name = 'PermitDomainMismatchError';
+  }
+}
+
+export class InsufficientBalanceError extends KalpRelayError {
+  constructor(
+    public tokenAddress: string,
+    public ownerAddress: string,
+    public required: bigint,
+    public available: bigint,
+    /** Spender whose allowance falls short; undefined when the balance does */
+    public spender?: string
+  ) {
+    super(
+      spender
+        ? `Token ${tokenAddress} allows ${spender} to move ${available} from ${ownerAddress}, ` +
+            `but the transfer needs ${required}`
+        : `Token ${tokenAddress} balance of ${ownerAddress} is ${available}, but the transfer needs ${required}`,
+      'INSUFFICIENT_BALANCE',
+      { tokenAddress, ownerAddress, required, available, spender }
+    );
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+export class Permit2ApprovalRequiredError extends InsufficientBalanceError {
+  constructor(
+    tokenAddress: string,
+    ownerAddress: string,
+    public permit2Address: string,
+    public allowance: bigint,
+    public amount: bigint
+  ) {
+    super(tokenAddress, ownerAddress, amount, allowance, permit2Address);
+    this.message = `${this.message}; the owner must approve Permit2 first`;
+    this.code = 'PERMIT2_APPROVAL_REQUIRED';
+    this.details = { tokenAddress, ownerAddress, permit2Address, allowance, amount };
+    this.name = 'Permit2ApprovalRequiredError';
+  }
+}
+
+export class PermitAlreadyUsedError extends KalpRelayError {
+  constructor(details?: unknown) {
+    super('Permit has already been used on the facilitator', 'PERMIT_ALREADY_USED', details);
+    this.name = 'PermitAlreadyUsedError';
+  }
+}
+
+export class RelayInnerCallFailedError extends KalpRelayError {
+  constructor(
+    public revertReason: DecodedRevertReason,
+    details?: unknown
+  ) {
+    super(`Relayed call failed: ${revertReason.reason}`, 'RELAY_INNER_CALL_FAILED', details);
+    this.name = 'RelayInnerCallFailedError';
+  }
+}
+
+export class RelaySimulationError extends KalpRelayError {
+  constructor(
+    public revertReason: DecodedRevertReason,
+    details?: unknown
+  ) {
+    super(`Relay simulation failed: ${revertReason.reason}`, 'RELAY_SIMULATION_FAILED', details);
+    this.name = 'RelaySimulationError';
+  }
+}
+
+export class SponsorPolicyViolationError extends KalpRelayError {
+  constructor(
+    public rule: 'allowedTargets' | 'allowedSelectors' | 'maxGasPerTx' | 'dailyUserQuota' | 'hook',
+    message: string,
+    details?: unknown
+  ) {
+    super(message, 'SPONSOR_POLICY_VIOLATION', details);
+    this.name = 'SponsorPolicyViolationError';
+  }
+}
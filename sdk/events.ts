@@ -0,0 +1,90 @@
+/**
+ * Typed event emitter used for KalpRelaySDK lifecycle events
+ *
+ * Listener errors never interrupt a relay: they are reported to the
+ * emitter's error handler and the remaining listeners still run.
+ */
+
+/** Listener for a single event type */
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners = new Map<keyof Events, Set<EventListener<any>>>();
+
+  /**
+   * @param onListenerError - Called when a listener throws
+   */
+  constructor(
+    private onListenerError: (event: keyof Events, error: unknown) => void = () => {}
+  ) {}
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   *
+   * @returns Function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const wrapper: EventListener<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Remove a listener
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Remove all listeners, or all listeners of one event
+   */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Call every listener of an event synchronously, in subscription order
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onListenerError(event, error);
+      }
+    }
+  }
+}
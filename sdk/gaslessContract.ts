@@ -0,0 +1,275 @@
+/**
+ * ABI-driven wrapper for gasless contract calls
+ *
+ * Mirrors the ergonomics of `ethers.Contract`: every function in the ABI is
+ * available as `contract.gasless.<name>(...args, overrides?)`, which encodes
+ * the call, relays it through KalpRelaySDK and decodes the return value and
+ * events from the mined receipt.
+ */
+
+import { ethers } from 'ethers';
+import type { KalpRelaySDK } from './KalpRelaySDK';
+import type {
+  TargetAbi,
+  GaslessContractOptions,
+  GaslessCallOverrides,
+  GaslessCallResult,
+  DecodedContractEvent,
+  RelayLog,
+  RelayReceipt,
+  WaitForRelayOptions,
+} from './types';
+import { WalletNotConnectedError } from './errors';
+import { isValidAddress } from './utils';
+
+/** Relays a contract function and resolves with its decoded outcome */
+export type GaslessMethod = (...args: any[]) => Promise<GaslessCallResult>;
+
+/** Encodes calldata for a contract function */
+export type EncodeMethod = (...args: any[]) => string;
+
+/** A function fragment resolved for a call, with its arguments split from the overrides */
+interface ResolvedCall {
+  fragment: any;
+  values: unknown[];
+  overrides: GaslessCallOverrides;
+}
+
+/**
+ * Whether a trailing argument is an overrides object rather than a struct argument
+ */
+const isOverrides = (value: unknown): value is GaslessCallOverrides => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Gasless contract bound to an address and ABI
+ *
+ * @example
+ * ```typescript
+ * const counter = sdk.contract(COUNTER_ADDRESS, COUNTER_ABI, { userAddress });
+ *
+ * const { returnValue, events } = await counter.gasless.increment();
+ * const { txHash } = await counter.gasless['setCount(uint256)'](42n, { waitForReceipt: false });
+ * ```
+ */
+export class GaslessContract {
+  /** Contract address */
+  readonly address: string;
+  /** Parsed contract ABI */
+  readonly interface: any;
+  /** Relay a function call; methods are keyed by name or full signature */
+  readonly gasless: Record<string, GaslessMethod>;
+  /** Encode calldata for a function call without relaying it */
+  readonly encode: Record<string, EncodeMethod>;
+
+  constructor(
+    private sdk: KalpRelaySDK,
+    address: string,
+    abi: TargetAbi,
+    private options: GaslessContractOptions = {}
+  ) {
+    if (!isValidAddress(address)) {
+      throw new Error('Invalid contract address');
+    }
+
+    this.address = address;
+    this.interface = new ethers.Interface(abi as any);
+    this.gasless = this.createMethodMap((key) => (...args: unknown[]) => this.relay(key, args));
+    this.encode = this.createMethodMap((key) => (...args: unknown[]) => {
+      const { fragment, values } = this.resolveCall(key, args);
+      return this.interface.encodeFunctionData(fragment, values);
+    });
+  }
+
+  /**
+   * Encode, relay and decode a function call
+   * @private
+   */
+  private async relay(key: string, args: unknown[]): Promise<GaslessCallResult> {
+    const { fragment, values, overrides } = this.resolveCall(key, args);
+    const { userAddress = this.options.userAddress, chainId = this.options.chainId, ...executionOptions } =
+      overrides;
+
+    if (!userAddress) {
+      throw new WalletNotConnectedError();
+    }
+
+    // Relayers that forward data unchanged expect the user appended to it (ERC-2771)
+    const callData = this.interface.encodeFunctionData(fragment, values);
+    const data = this.sdk.getChainConfig(chainId).relayerAppendsSender
+      ? callData
+      : ethers.hexlify(ethers.concat([callData, userAddress]));
+    const targetAbi = this.interface.format() as string[];
+
+    // Wait for the receipt unless told not to: return values and events come from it
+    const waitForReceipt: false | WaitForRelayOptions =
+      executionOptions.waitForReceipt === false
+        ? false
+        : {
+            targetAbi,
+            ...(executionOptions.waitForReceipt === true ? {} : executionOptions.waitForReceipt),
+          };
+    const simulate =
+      executionOptions.simulate === true
+        ? { targetAbi }
+        : executionOptions.simulate && { targetAbi, ...executionOptions.simulate };
+
+    const result = await this.sdk.executeRelay(
+      { target: this.address, data, userAddress },
+      chainId,
+      { ...executionOptions, waitForReceipt, simulate }
+    );
+
+    if (!waitForReceipt) {
+      return { ...result, events: [] };
+    }
+
+    const receipt = result as RelayReceipt;
+    const returnData = receipt.relayEvent.result;
+    let returnValue: unknown;
+
+    if (receipt.innerCallSuccess && fragment.outputs.length > 0 && returnData !== '0x') {
+      const decoded = this.interface.decodeFunctionResult(fragment, returnData);
+      returnValue = fragment.outputs.length === 1 ? decoded[0] : decoded;
+    }
+
+    return {
+      ...receipt,
+      receipt,
+      returnValue,
+      events: this.parseEvents(receipt.logs),
+    };
+  }
+
+  /**
+   * Decode the events this contract emitted in a relay transaction
+   *
+   * @param logs - Logs of the relay transaction receipt
+   * @returns Events found in the ABI, in log order
+   */
+  parseEvents(logs: RelayLog[]): DecodedContractEvent[] {
+    const events: DecodedContractEvent[] = [];
+
+    for (const log of logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) {
+        continue;
+      }
+
+      let parsed;
+      try {
+        parsed = this.interface.parseLog({ topics: [...log.topics], data: log.data });
+      } catch {
+        continue;
+      }
+      if (!parsed) {
+        continue;
+      }
+
+      const args = Array.from(parsed.args as unknown[]);
+      const namedArgs: Record<string, unknown> = {};
+      parsed.fragment.inputs.forEach((input: { name: string }, index: number) => {
+        if (input.name) {
+          namedArgs[input.name] = args[index];
+        }
+      });
+
+      events.push({
+        name: parsed.name,
+        signature: parsed.signature,
+        args,
+        namedArgs,
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Pick the function fragment for a call and split off a trailing overrides object
+   *
+   * Overloads are matched by argument count first, then by which candidates
+   * accept the argument types. Ambiguous calls must use the full signature.
+   * @private
+   */
+  private resolveCall(key: string, args: unknown[]): ResolvedCall {
+    const candidates = this.functionFragments(key);
+    if (candidates.length === 0) {
+      throw new Error(`Function ${key} not found in contract ABI`);
+    }
+
+    const last = args[args.length - 1];
+    const matches: ResolvedCall[] = [];
+
+    for (const fragment of candidates) {
+      if (fragment.inputs.length === args.length) {
+        matches.push({ fragment, values: args, overrides: {} });
+      } else if (fragment.inputs.length === args.length - 1 && isOverrides(last)) {
+        matches.push({ fragment, values: args.slice(0, -1), overrides: last });
+      }
+    }
+
+    if (matches.length === 1) {
+      return matches[0];
+    }
+    if (matches.length === 0) {
+      throw new Error(`No overload of ${key} takes ${args.length} argument(s)`);
+    }
+
+    const encodable = matches.filter(({ fragment, values }) => {
+      try {
+        this.interface.encodeFunctionData(fragment, values);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+
+    if (encodable.length === 1) {
+      return encodable[0];
+    }
+
+    const signatures = matches.map(({ fragment }) => fragment.format()).join(', ');
+    throw new Error(`Ambiguous call to ${key} (matches ${signatures}); call it by full signature instead`);
+  }
+
+  /**
+   * Function fragments matching a name or full signature
+   * @private
+   */
+  private functionFragments(key: string): any[] {
+    const functions = this.interface.fragments.filter((fragment: any) => fragment.type === 'function');
+
+    if (key.includes('(')) {
+      let normalized: string;
+      try {
+        normalized = ethers.FunctionFragment.from(key).format();
+      } catch {
+        return [];
+      }
+      return functions.filter((fragment: any) => fragment.format() === normalized);
+    }
+
+    return functions.filter((fragment: any) => fragment.name === key);
+  }
+
+  /**
+   * Build a method map that exposes the ABI's functions by name and signature
+   * @private
+   */
+  private createMethodMap<T>(createMethod: (key: string) => T): Record<string, T> {
+    return new Proxy({} as Record<string, T>, {
+      get: (_, key) => {
+        // Unknown keys (including `then`) stay undefined so the map is not mistaken for a promise
+        if (typeof key !== 'string' || this.functionFragments(key).length === 0) {
+          return undefined;
+        }
+        return createMethod(key);
+      },
+    });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Idempotency keys for relay submissions
+ *
+ * Every signed relay payload is identified by a deterministic key, sent to the
+ * relay API as the `Idempotency-Key` header. Retrying or resubmitting the same
+ * signed payload reuses the key, so the relay API (and the SDK's submission
+ * store) can recognize it instead of relaying it twice.
+ */
+
+import { ethers } from 'ethers';
+import { stableStringify } from './utils';
+
+/** HTTP header carrying the idempotency key */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Compute the idempotency key of a signed relay payload
+ *
+ * @param payload - Relay API request body, including the user's signature
+ * @returns keccak256 hash of the payload's stable JSON serialization
+ */
+export function computeIdempotencyKey(payload: Record<string, unknown>): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(stableStringify(payload)));
+}
@@ -8,17 +8,90 @@
  */
 
 export { KalpRelaySDK } from './KalpRelaySDK';
+export { GaslessContract } from './gaslessContract';
+export type { GaslessMethod, EncodeMethod } from './gaslessContract';
+export { TokenRegistry } from './tokenRegistry';
+export type { TokenRegistryOptions } from './tokenRegistry';
 
 export type {
   KalpRelayConfig,
+  ChainConfig,
+  RelayRequestVersion,
   RelayTransactionParams,
   RelayResult,
+  RelayReceipt,
+  RelayExecutedEvent,
+  RelayExecutionOptions,
+  RelayLog,
+  RelaySubmissionRecord,
+  RelayTaskState,
+  RelayTaskStatus,
+  RelayTaskPending,
+  RelayTaskSubmitted,
+  RelayTaskMined,
+  RelayTaskFailed,
+  WaitForTaskOptions,
+  GaslessContractOptions,
+  GaslessCallOverrides,
+  GaslessCallResult,
+  DecodedContractEvent,
+  RelayLifecycleEvents,
+  RelayLifecycleEventBase,
+  RelayLifecycleStage,
+  RelaySignRequestedEvent,
+  RelaySignedEvent,
+  RelaySignatureKind,
+  RelaySubmitAttemptEvent,
+  RelayRetryScheduledEvent,
+  RelayQueuedEvent,
+  RelaySubmittedEvent,
+  RelayConfirmedEvent,
+  RelayFailedEvent,
+  WaitForRelayOptions,
+  TargetAbi,
+  DecodedRevertReason,
+  SimulateRelayOptions,
+  RelaySimulationResult,
+  EstimateRelayGasOptions,
+  RelayGasEstimate,
+  KeyValueStore,
+  SponsorPolicy,
+  SponsorPolicyContext,
+  SponsorPolicyDecision,
+  SponsorResolver,
+  SponsorResolutionContext,
   SignTypedDataFunction,
   EIP712Message,
   EIP712Domain,
   TokenTransferParams,
+  BulkTransferRecipient,
+  BulkTokenTransferParams,
+  BulkTokenTransferResult,
+  FacilitatorMode,
   EIP2612Domain,
   EIP2612PermitMessage,
+  RetryConfig,
+  PermitMethod,
+  AmountFormat,
+  TokenMetadata,
+  TokenList,
+  TokenListToken,
+  RelayBatchCall,
+  RelayBatchParams,
+  RelayBatchMode,
+  RelayBatchOptions,
+  RelayBatchCallResult,
+  RelayBatchResult,
+  Permit2TransferMessage,
+  PreparedRelayRequest,
+  PrepareRelayOptions,
+  SignedRelayRequest,
+  SignedRelayMessage,
+  SignRelayOptions,
+  SubmitSignedRelayOptions,
+  OnChainEip712Domain,
+  VerifyRelaySignatureOptions,
+  RelaySignatureVerification,
 } from './types';
 
 export {
@@ -27,6 +100,19 @@ export {
   SponsorFetchError,
   SignatureError,
   RelaySubmissionError,
+  RelayHttpError,
+  RelaySubmissionUnconfirmedError,
+  PermitAlreadyUsedError,
+  RelayInnerCallFailedError,
+  RelaySimulationError,
+  SponsorPolicyViolationError,
+  RelayAbortedError,
+  RelayTaskFailedError,
+  RelaySignatureMismatchError,
+  RelayDomainMismatchError,
+  PermitDomainMismatchError,
+  InsufficientBalanceError,
+  Permit2ApprovalRequiredError,
 } from './errors';
 
 export {
@@ -35,10 +121,73 @@ export {
   createEip1193Signer,
 } from './walletSigners';
 
+export type { SignerOptions } from './walletSigners';
+
+export {
+  silentLogger,
+  createConsoleLogger,
+  createRedactingLogger,
+  redact,
+} from './logger';
+
+export type { Logger, LogLevel, LogFields } from './logger';
+
+export type { EventListener } from './events';
+
+export {
+  waitForTransactionReceipt,
+  parseRelayExecutedEvent,
+  decodeRevertReason,
+  extractRevertData,
+} from './relayReceipt';
+
+export { parseRelayTaskStatus } from './relayTask';
+
+export { computeIdempotencyKey, IDEMPOTENCY_HEADER } from './idempotency';
+
+export {
+  serializeSignedRelay,
+  parseSignedRelay,
+  getSignedRelayMessage,
+  recoverRelaySigner,
+  SIGNED_RELAY_FORMAT,
+} from './signedRelay';
+
+export { fetchEip712Domain, computeDomainSeparator, eip712DomainTypes } from './eip712';
+
+export { MemoryStore, shouldRetryError, parseRetryAfter } from './utils';
+
+export { multicall, MULTICALL3_ADDRESS } from './multicall';
+export type { MulticallCall, MulticallResult } from './multicall';
+export { encodeRelayBatch, decodeRelayBatchResults, BATCH_FORWARDER_ABI } from './relayBatch';
+
 export {
   getTokenNonce,
   getTokenDomain,
+  matchTokenDomain,
   signPermit,
   encodeFacilitatorCall,
+  encodeBulkFacilitatorCall,
+  prepareBulkRecipients,
+  calculateFacilitatorPermitHash,
+  isPermitUsed,
   calculateDeadline,
+  detectPermitMethod,
+  getPermit2Nonce,
+  getPermit2Allowance,
+  buildPermit2TransferTypedData,
+  signPermit2Transfer,
+  encodePermit2FacilitatorCall,
+  PERMIT2_ADDRESS,
+  signPermitTypedData,
+  getTokenDecimals,
+  getTokenBalance,
+  parseTokenAmount,
+  PermitFlavorRegistry,
+  BUILTIN_PERMIT_FLAVORS,
+  eip2612PermitFlavor,
+  permit2PermitFlavor,
+  daiPermitFlavor,
+  eip3009PermitFlavor,
 } from './tokenTransfer';
+export type { PermitFlavor, PermitFlavorContext, PermitTypedData } from './tokenTransfer';
@@ -0,0 +1,144 @@
+/**
+ * Logging for KalpRelaySDK
+ *
+ * The SDK never writes to the console on its own. Pass a Logger in
+ * KalpRelayConfig (e.g. createConsoleLogger() or an adapter for pino/winston)
+ * to receive structured log entries. Signatures and the API key are redacted
+ * before entries reach the logger.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** Structured fields attached to a log entry (e.g. chainId, target, requestId) */
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/** Field names whose values are always redacted */
+const SENSITIVE_KEY_PATTERN = /signature|apikey|api_key|privatekey|private_key|authorization|^r$|^s$/i;
+
+/** 65-byte ECDSA signatures, wherever they appear */
+const SIGNATURE_PATTERN = /0x[a-fA-F0-9]{130}\b/g;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Logger that discards everything (SDK default)
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Create a logger that writes to the console
+ *
+ * @param options - Minimum level to log (default: 'info') and message prefix
+ * @returns Logger writing `[prefix] message {fields}` lines
+ *
+ * @example
+ * ```typescript
+ * const sdk = new KalpRelaySDK({ ...config, logger: createConsoleLogger({ level: 'debug' }) }, signer);
+ * ```
+ */
+export function createConsoleLogger(
+  options: { level?: LogLevel; prefix?: string } = {}
+): Logger {
+  const minLevel = LOG_LEVEL_ORDER[options.level ?? 'info'];
+  const prefix = options.prefix ?? '[kalp-relay]';
+
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVEL_ORDER[level] < minLevel) return;
+    const line = `${prefix} ${message}`;
+    if (fields && Object.keys(fields).length > 0) {
+      console[level](line, fields);
+    } else {
+      console[level](line);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Redact signatures and secrets from a value
+ *
+ * @param value - Value to redact (objects and arrays are copied, not mutated)
+ * @param secrets - Exact secret strings (e.g. the API key) to remove
+ * @returns Redacted copy of the value
+ */
+export function redact(value: unknown, secrets: string[] = []): unknown {
+  if (typeof value === 'string') {
+    let result = value.replace(SIGNATURE_PATTERN, REDACTED);
+    for (const secret of secrets) {
+      if (secret) {
+        result = result.split(secret).join(REDACTED);
+      }
+    }
+    return result;
+  }
+
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message, secrets) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, secrets));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEY_PATTERN.test(key) ? REDACTED : redact(item, secrets);
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Wrap a logger so every message and field is redacted first
+ *
+ * @param logger - Logger to wrap
+ * @param secrets - Exact secret strings (e.g. the API key) to remove
+ * @returns Redacting logger
+ */
+export function createRedactingLogger(logger: Logger, secrets: string[] = []): Logger {
+  const wrap = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    logger[level](
+      redact(message, secrets) as string,
+      fields ? (redact(fields, secrets) as LogFields) : undefined
+    );
+  };
+
+  return {
+    debug: wrap('debug'),
+    info: wrap('info'),
+    warn: wrap('warn'),
+    error: wrap('error'),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Multicall3 utilities
+ *
+ * Batches read-only contract calls into a single `eth_call` through the
+ * Multicall3 contract (deployed at the same address on most EVM chains).
+ * Chains without Multicall3 fall back to one `eth_call` per call.
+ */
+
+import { ethers } from 'ethers';
+
+// Type alias for ethers provider
+type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
+
+/** Canonical Multicall3 deployment */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/** Multicall3 ABI */
+export const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+/** A call batched through Multicall3 */
+export interface MulticallCall {
+  target: string;
+  callData: string;
+}
+
+/** Outcome of a batched call */
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Run read-only calls in one `eth_call` through Multicall3
+ *
+ * Individual calls may fail without failing the batch. If Multicall3 is not
+ * deployed (or the batch call itself fails), each call is made separately.
+ *
+ * @param calls - Calls to make, in order
+ * @param provider - Ethers provider
+ * @param multicallAddress - Multicall3 contract (default: the canonical deployment)
+ * @returns One result per call, in the same order
+ */
+export async function multicall(
+  calls: MulticallCall[],
+  provider: EthersProvider,
+  multicallAddress: string = MULTICALL3_ADDRESS
+): Promise<MulticallResult[]> {
+  if (calls.length === 0) {
+    return [];
+  }
+
+  const multicallContract = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+
+  try {
+    const results = await multicallContract.aggregate3.staticCall(
+      calls.map(({ target, callData }) => ({ target, allowFailure: true, callData }))
+    );
+    return results.map((result: any) => ({
+      success: Boolean(result.success),
+      returnData: result.returnData as string,
+    }));
+  } catch {
+    // Multicall3 is not available, make the calls one by one
+  }
+
+  return Promise.all(
+    calls.map(({ target, callData }) =>
+      provider.call({ to: target, data: callData }).then(
+        (returnData: string) => ({ success: true, returnData }),
+        () => ({ success: false, returnData: '0x' })
+      )
+    )
+  );
+}
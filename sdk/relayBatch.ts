@@ -0,0 +1,165 @@
+/**
+ * Batched relay calls
+ *
+ * Several calls are relayed as one RelayRequest by wrapping them in a single
+ * aggregated call to an ERC-2771-aware batch forwarder that forwards the
+ * relayed user to each target, or, for calls that do not depend on
+ * `msg.sender`, to Multicall3 `aggregate3`. KalpRelayer
+ * appends the user whose signature it verified, so the SDK never adds a
+ * sender suffix itself. Both return `(bool success, bytes returnData)[]`,
+ * decoded here into per-call results.
+ */
+
+import { ethers } from 'ethers';
+import type { RelayBatchCall, RelayBatchCallResult, RelayBatchMode } from './types';
+import { isValidAddress } from './utils';
+import { decodeRevertReason } from './relayReceipt';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from './multicall';
+
+/**
+ * ERC-2771-aware batch forwarder ABI (see examples/basic/contracts/KalpBatchForwarder.sol)
+ *
+ * The forwarder reads the user from the ERC-2771 suffix KalpRelayer appends
+ * after verifying the user's signature, and appends it to each call, so
+ * targets that trust the forwarder see the user as `_msgSender()`.
+ */
+export const BATCH_FORWARDER_ABI = [
+  'function executeBatch((address target, bytes data)[] calls, bool atomic) returns ((bool success, bytes returnData)[] results)',
+  'error BatchCallFailed(uint256 index, bytes returnData)',
+  'error UntrustedRelayer(address caller)',
+];
+
+/** Return type shared by `aggregate3` and `executeBatch` */
+const BATCH_RESULTS_TYPE = ['tuple(bool success, bytes returnData)[]'];
+
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+
+/**
+ * Encode calls as a single aggregated call
+ *
+ * @param calls - Calls to batch, in execution order
+ * @param options - Batch mode and the aggregating contract
+ * @returns Target and calldata of the aggregated call
+ * @throws Error if the list is empty or contains an invalid call, or if neither
+ *   a forwarder nor `senderIndependent` is given
+ */
+export function encodeRelayBatch(
+  calls: RelayBatchCall[],
+  options: {
+    mode: RelayBatchMode;
+    /** ERC-2771 batch forwarder, for calls that act as the user */
+    forwarderAddress?: string;
+    /** No call depends on `msg.sender`; batch through Multicall3 instead of a forwarder */
+    senderIndependent?: boolean;
+    multicallAddress?: string;
+  }
+): { target: string; data: string } {
+  if (!calls || calls.length === 0) {
+    throw new Error('Batch must contain at least one call');
+  }
+  calls.forEach((call, index) => {
+    if (!isValidAddress(call.target)) {
+      throw new Error(`Invalid target address at index ${index}`);
+    }
+    if (typeof call.data !== 'string' || !HEX_PATTERN.test(call.data)) {
+      throw new Error(`Invalid call data at index ${index}`);
+    }
+  });
+
+  const atomic = options.mode === 'atomic';
+
+  if (options.forwarderAddress) {
+    if (!isValidAddress(options.forwarderAddress)) {
+      throw new Error('Invalid batch forwarder address');
+    }
+
+    const forwarderInterface = new ethers.Interface(BATCH_FORWARDER_ABI);
+    return {
+      target: options.forwarderAddress,
+      data: forwarderInterface.encodeFunctionData('executeBatch', [
+        calls.map(({ target, data }) => ({ target, data })),
+        atomic,
+      ]),
+    };
+  }
+
+  // Multicall3 calls every target as itself: approvals, deposits and the like would act for Multicall3
+  if (!options.senderIndependent) {
+    throw new Error(
+      'Batches that act as the user need a forwarderAddress; ' +
+        'set senderIndependent to batch calls that do not depend on msg.sender through Multicall3'
+    );
+  }
+
+  const multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  if (!isValidAddress(multicallAddress)) {
+    throw new Error('Invalid Multicall3 address');
+  }
+
+  const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+  return {
+    target: multicallAddress,
+    data: multicallInterface.encodeFunctionData('aggregate3', [
+      calls.map(({ target, data }) => ({ target, allowFailure: !atomic, callData: data })),
+    ]),
+  };
+}
+
+/**
+ * Decode the per-call results of an aggregated call
+ *
+ * @param calls - Calls that were batched, in the same order
+ * @param returnData - Return data of the aggregated call (the RelayExecuted `result`)
+ * @returns Outcome of each call, with return values decoded for calls that carry an ABI
+ * @throws Error if the return data is not a batch result for these calls
+ */
+export function decodeRelayBatchResults(calls: RelayBatchCall[], returnData: string): RelayBatchCallResult[] {
+  let results: Array<{ success: boolean; returnData: string }>;
+  try {
+    [results] = ethers.AbiCoder.defaultAbiCoder().decode(BATCH_RESULTS_TYPE, returnData);
+  } catch (error) {
+    throw new Error(`Failed to decode batch results: ${error}`);
+  }
+
+  if (results.length !== calls.length) {
+    throw new Error(`Batch returned ${results.length} results for ${calls.length} calls`);
+  }
+
+  return calls.map((call, index) => {
+    const { success, returnData: callReturnData } = results[index];
+
+    if (!success) {
+      return {
+        target: call.target,
+        success: false,
+        returnData: callReturnData,
+        revertReason: decodeRevertReason(callReturnData, call.abi),
+      };
+    }
+
+    return {
+      target: call.target,
+      success: true,
+      returnData: callReturnData,
+      returnValue: call.abi ? decodeReturnValue(call, callReturnData) : undefined,
+    };
+  });
+}
+
+/**
+ * Decode a call's return value with its ABI; undefined if it cannot be decoded
+ */
+const decodeReturnValue = (call: RelayBatchCall, returnData: string): unknown => {
+  try {
+    const contractInterface = new ethers.Interface(call.abi as any);
+    const fragment = contractInterface.getFunction(call.data.slice(0, 10));
+    if (!fragment || fragment.outputs.length === 0 || returnData === '0x') {
+      return undefined;
+    }
+
+    const decoded = contractInterface.decodeFunctionResult(fragment, returnData);
+    return fragment.outputs.length === 1 ? decoded[0] : decoded;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,201 @@
+/**
+ * Relay receipt utilities
+ *
+ * This module polls for relayed transaction receipts and decodes the
+ * KalpRelayer `RelayExecuted` event, which is the only place the outcome of
+ * the inner `target.call` is reported.
+ */
+
+import { ethers } from 'ethers';
+import type { RelayExecutedEvent, DecodedRevertReason, TargetAbi } from './types';
+import { RequestTimeoutError } from './errors';
+import { sleep, abortable } from './utils';
+
+// Type alias for ethers provider
+type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
+
+/**
+ * KalpRelayer event ABI
+ */
+const RELAYER_EVENTS_ABI = [
+  'event RelayExecuted(address indexed target, address indexed user, address indexed sponsor, bool success, bytes result)',
+];
+
+/** Selector of Solidity's built-in `Error(string)` */
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+/** Selector of Solidity's built-in `Panic(uint256)` */
+const PANIC_SELECTOR = '0x4e487b71';
+
+/** Descriptions of Solidity panic codes */
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'corrupted storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function',
+};
+
+/**
+ * Poll for a transaction receipt until it has enough confirmations
+ *
+ * @param provider - Ethers provider
+ * @param txHash - Transaction hash
+ * @param options - Confirmations, timeout, polling interval and optional abort signal
+ * @returns Mined transaction receipt and its confirmation count
+ * @throws RequestTimeoutError if the receipt is not confirmed in time
+ * @throws RelayAbortedError if the signal aborts
+ */
+export async function waitForTransactionReceipt(
+  provider: EthersProvider,
+  txHash: string,
+  options: { confirmations: number; timeout: number; pollInterval: number; signal?: AbortSignal }
+): Promise<{ receipt: any; confirmations: number }> {
+  const startedAt = Date.now();
+
+  for (;;) {
+    const receipt = await abortable<any>(provider.getTransactionReceipt(txHash), options.signal);
+
+    if (receipt) {
+      const currentBlock = await abortable<number>(provider.getBlockNumber(), options.signal);
+      const confirmations = currentBlock - receipt.blockNumber + 1;
+
+      if (confirmations >= options.confirmations) {
+        return { receipt, confirmations };
+      }
+    }
+
+    if (Date.now() - startedAt >= options.timeout) {
+      throw new RequestTimeoutError({
+        txHash,
+        timeout: options.timeout,
+        reason: receipt ? 'confirmations' : 'receipt',
+      });
+    }
+
+    await sleep(options.pollInterval, options.signal);
+  }
+}
+
+/**
+ * Find and decode the RelayExecuted event in a transaction receipt
+ *
+ * @param logs - Receipt logs
+ * @param relayerAddress - KalpRelayer contract address that emitted the event
+ * @returns Decoded event, or null if the relayer emitted none
+ */
+export function parseRelayExecutedEvent(
+  logs: Array<{ address: string; topics: string[]; data: string }>,
+  relayerAddress: string
+): RelayExecutedEvent | null {
+  const relayerInterface = new ethers.Interface(RELAYER_EVENTS_ABI);
+
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== relayerAddress.toLowerCase()) {
+      continue;
+    }
+
+    let parsed;
+    try {
+      parsed = relayerInterface.parseLog({ topics: [...log.topics], data: log.data });
+    } catch {
+      continue;
+    }
+
+    if (parsed?.name === 'RelayExecuted') {
+      return {
+        target: parsed.args.target,
+        user: parsed.args.user,
+        sponsor: parsed.args.sponsor,
+        success: parsed.args.success,
+        result: parsed.args.result,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode revert data returned by a failed call
+ *
+ * Recognizes `Error(string)` and `Panic(uint256)`, and custom errors when the
+ * target contract's ABI is provided.
+ *
+ * @param data - Revert data (hex string)
+ * @param targetAbi - Optional ABI of the contract that reverted
+ * @returns Decoded revert reason; never throws
+ */
+export function decodeRevertReason(data: string, targetAbi?: TargetAbi): DecodedRevertReason {
+  if (!data || data === '0x') {
+    return { kind: 'empty', reason: 'execution reverted without data', data: data || '0x' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  const payload = '0x' + data.slice(10);
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = abiCoder.decode(['string'], payload);
+      return { kind: 'error', reason, data };
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = abiCoder.decode(['uint256'], payload);
+      const panicCode = BigInt(code);
+      const description = PANIC_REASONS[Number(panicCode)] ?? 'unknown panic';
+      return {
+        kind: 'panic',
+        reason: `panic 0x${panicCode.toString(16)} (${description})`,
+        data,
+        panicCode,
+      };
+    }
+
+    if (targetAbi) {
+      const parsed = new ethers.Interface(targetAbi).parseError(data);
+      if (parsed) {
+        const args = Array.from(parsed.args as ArrayLike<unknown>);
+        return {
+          kind: 'custom',
+          reason: `${parsed.name}(${args.map((arg) => String(arg)).join(', ')})`,
+          data,
+          errorName: parsed.name,
+          args,
+        };
+      }
+    }
+  } catch {
+    // Fall through to unknown for malformed revert data
+  }
+
+  return { kind: 'unknown', reason: `unrecognized revert data ${selector}`, data };
+}
+
+/**
+ * Extract revert data from an ethers call exception
+ *
+ * @param error - Error thrown by `provider.call` or `estimateGas`
+ * @returns Revert data, '0x' for a revert without data, or null if the error
+ *          is not a revert (e.g. a network failure)
+ */
+export function extractRevertData(error: any): string | null {
+  const candidates = [error?.data, error?.info?.error?.data, error?.error?.data];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'string' && candidate.startsWith('0x')) {
+      return candidate;
+    }
+    if (typeof candidate?.data === 'string' && candidate.data.startsWith('0x')) {
+      return candidate.data;
+    }
+  }
+
+  return error?.code === 'CALL_EXCEPTION' ? '0x' : null;
+}
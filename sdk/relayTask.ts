@@ -0,0 +1,77 @@
+/**
+ * Relay task utilities
+ *
+ * When the relay API queues a request instead of broadcasting it right away,
+ * it answers with a task ID. This module maps the API's task status payloads
+ * onto typed RelayTaskStatus values.
+ */
+
+import type { RelayTaskState, RelayTaskStatus } from './types';
+
+/** Status strings reported by the relay API, mapped to task states */
+const TASK_STATE_ALIASES: Record<string, RelayTaskState> = {
+  pending: 'pending',
+  queued: 'pending',
+  accepted: 'pending',
+  processing: 'pending',
+  submitted: 'submitted',
+  sent: 'submitted',
+  broadcast: 'submitted',
+  mined: 'mined',
+  confirmed: 'mined',
+  success: 'mined',
+  failed: 'failed',
+  reverted: 'failed',
+  cancelled: 'failed',
+  dropped: 'failed',
+  expired: 'failed',
+};
+
+/**
+ * Parse a relay task status response
+ *
+ * Accepts the status in `state` or `status`, at the top level or nested in
+ * `result`. A `submitted` or `mined` status without a transaction hash is
+ * reported as `pending`.
+ *
+ * @param taskId - Task ID the status was requested for
+ * @param data - Parsed JSON response of the status endpoint
+ * @returns Typed task status
+ * @throws Error if the status is missing or unknown
+ */
+export function parseRelayTaskStatus(taskId: string, data: any): RelayTaskStatus {
+  const result = data?.result ?? data ?? {};
+  const rawState = result.state ?? result.status ?? data?.state ?? data?.status;
+  const state = typeof rawState === 'string' ? TASK_STATE_ALIASES[rawState.toLowerCase()] : undefined;
+
+  if (!state) {
+    throw new Error(`Unknown relay task status for ${taskId}: ${JSON.stringify(rawState)}`);
+  }
+
+  const txHash: string | undefined = result.txHash ?? data?.txHash ?? undefined;
+
+  if (state === 'failed') {
+    return {
+      state,
+      taskId,
+      txHash,
+      reason: result.error ?? result.reason ?? data?.error ?? data?.message ?? 'Relay task failed',
+    };
+  }
+
+  if (state === 'pending' || !txHash) {
+    return { state: 'pending', taskId };
+  }
+
+  if (state === 'submitted') {
+    return { state, taskId, txHash };
+  }
+
+  return {
+    state,
+    taskId,
+    txHash,
+    blockNumber: result.blockNumber !== undefined ? Number(result.blockNumber) : undefined,
+    gasUsed: result.gasUsed !== undefined ? String(result.gasUsed) : undefined,
+  };
+}
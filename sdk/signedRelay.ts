@@ -0,0 +1,193 @@
+/**
+ * Signed relay request envelopes
+ *
+ * A SignedRelayRequest carries everything needed to submit a relay request
+ * that was signed elsewhere: the EIP-712 domain, the signed message and the
+ * user's signature. Integers are encoded as decimal strings so the envelope
+ * survives JSON, and `serializeSignedRelay()` produces a stable encoding
+ * (sorted keys) that is identical across processes.
+ */
+
+import { ethers } from 'ethers';
+import type {
+  EIP712Message,
+  PreparedRelayRequest,
+  RelayRequestVersion,
+  SignedRelayRequest,
+} from './types';
+import { isValidAddress, stableStringify } from './utils';
+
+/** Current envelope format version */
+export const SIGNED_RELAY_FORMAT = 1;
+
+/** RelayRequest typed-data schemas, keyed by version */
+export const RELAY_TYPES: Record<RelayRequestVersion, Record<string, Array<{ name: string; type: string }>>> = {
+  1: {
+    RelayRequest: [
+      { name: 'target', type: 'address' },
+      { name: 'data', type: 'bytes' },
+      { name: 'user', type: 'address' },
+      { name: 'sponsor', type: 'address' },
+      { name: 'chainId', type: 'uint256' },
+    ],
+  },
+  2: {
+    RelayRequest: [
+      { name: 'target', type: 'address' },
+      { name: 'data', type: 'bytes' },
+      { name: 'user', type: 'address' },
+      { name: 'sponsor', type: 'address' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  },
+};
+
+const HEX_PATTERN = /^0x([0-9a-fA-F]{2})*$/;
+const UINT_PATTERN = /^\d+$/;
+
+/**
+ * Wrap a prepared relay request and its signature in an envelope
+ *
+ * @param prepared - Request returned by `prepareRelayRequest()`
+ * @param signature - User's EIP-712 signature of the request
+ */
+export function createSignedRelay(prepared: PreparedRelayRequest, signature: string): SignedRelayRequest {
+  const { message } = prepared;
+
+  return {
+    format: SIGNED_RELAY_FORMAT,
+    requestId: prepared.requestId,
+    chainId: prepared.chainId,
+    relayRequestVersion: prepared.relayRequestVersion,
+    domain: { ...prepared.domain },
+    message: {
+      target: message.target,
+      data: message.data,
+      user: message.user,
+      sponsor: message.sponsor,
+      chainId: message.chainId.toString(),
+      ...(message.nonce !== undefined && { nonce: message.nonce.toString() }),
+      ...(message.deadline !== undefined && { deadline: message.deadline.toString() }),
+    },
+    signature,
+  };
+}
+
+/**
+ * Encode an envelope as stable JSON (sorted keys, no whitespace)
+ */
+export function serializeSignedRelay(envelope: SignedRelayRequest): string {
+  return stableStringify(envelope);
+}
+
+/**
+ * Decode and validate an envelope
+ *
+ * @param input - JSON produced by `serializeSignedRelay()`, or an already parsed envelope
+ * @returns The validated envelope
+ * @throws Error if the input is not a valid SignedRelayRequest
+ */
+export function parseSignedRelay(input: string | unknown): SignedRelayRequest {
+  let envelope: any = input;
+  if (typeof input === 'string') {
+    try {
+      envelope = JSON.parse(input);
+    } catch {
+      throw new Error('Invalid signed relay request: not valid JSON');
+    }
+  }
+
+  const invalid = (reason: string) => new Error(`Invalid signed relay request: ${reason}`);
+
+  if (typeof envelope !== 'object' || envelope === null) {
+    throw invalid('expected an object');
+  }
+  if (envelope.format !== SIGNED_RELAY_FORMAT) {
+    throw invalid(`unsupported format ${JSON.stringify(envelope.format)}`);
+  }
+  if (!Number.isInteger(envelope.chainId) || envelope.chainId <= 0) {
+    throw invalid('chainId must be a positive integer');
+  }
+  if (envelope.relayRequestVersion !== 1 && envelope.relayRequestVersion !== 2) {
+    throw invalid(`unsupported relayRequestVersion ${JSON.stringify(envelope.relayRequestVersion)}`);
+  }
+  if (envelope.requestId !== undefined && typeof envelope.requestId !== 'string') {
+    throw invalid('requestId must be a string');
+  }
+  if (typeof envelope.signature !== 'string' || !HEX_PATTERN.test(envelope.signature)) {
+    throw invalid('signature must be a hex string');
+  }
+
+  const { domain, message } = envelope;
+  if (
+    typeof domain !== 'object' ||
+    domain === null ||
+    typeof domain.name !== 'string' ||
+    typeof domain.version !== 'string' ||
+    domain.chainId !== envelope.chainId ||
+    !isValidAddress(domain.verifyingContract)
+  ) {
+    throw invalid('malformed EIP-712 domain');
+  }
+
+  if (typeof message !== 'object' || message === null) {
+    throw invalid('missing message');
+  }
+  for (const field of ['target', 'user', 'sponsor']) {
+    if (!isValidAddress(message[field])) {
+      throw invalid(`message.${field} must be an address`);
+    }
+  }
+  if (typeof message.data !== 'string' || !HEX_PATTERN.test(message.data)) {
+    throw invalid('message.data must be a hex string');
+  }
+  if (message.chainId !== String(envelope.chainId)) {
+    throw invalid('message.chainId does not match chainId');
+  }
+
+  const uintFields = envelope.relayRequestVersion === 2 ? ['nonce', 'deadline'] : [];
+  for (const field of uintFields) {
+    if (typeof message[field] !== 'string' || !UINT_PATTERN.test(message[field])) {
+      throw invalid(`message.${field} must be a decimal string`);
+    }
+  }
+
+  return envelope as SignedRelayRequest;
+}
+
+/**
+ * Recover the address that signed an envelope's EIP-712 typed data
+ *
+ * @returns The signer's address, or null if the signature is malformed
+ */
+export function recoverRelaySigner(envelope: SignedRelayRequest): string | null {
+  try {
+    return ethers.verifyTypedData(
+      envelope.domain,
+      RELAY_TYPES[envelope.relayRequestVersion],
+      envelope.message,
+      envelope.signature
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed EIP-712 message of an envelope, with integers as bigints
+ */
+export function getSignedRelayMessage(envelope: SignedRelayRequest): EIP712Message {
+  const { message } = envelope;
+
+  return {
+    target: message.target,
+    data: message.data,
+    user: message.user,
+    sponsor: message.sponsor,
+    chainId: BigInt(message.chainId),
+    ...(message.nonce !== undefined && { nonce: BigInt(message.nonce) }),
+    ...(message.deadline !== undefined && { deadline: BigInt(message.deadline) }),
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * Client-side sponsor spending policies
+ *
+ * This module evaluates per-sponsor rules (allowed targets and selectors,
+ * gas caps, per-user daily quotas and custom hooks) before a relay request
+ * is signed, so requests a sponsor will not pay for fail early. The daily
+ * quota is only read then; it is reserved when the request is posted to the relay API.
+ */
+
+import { ethers } from 'ethers';
+import type {
+  KeyValueStore,
+  SponsorPolicy,
+  SponsorPolicyContext,
+} from './types';
+import { SponsorPolicyViolationError } from './errors';
+
+/** Maximum number of hook reroutes before a request is rejected */
+const MAX_REROUTES = 3;
+
+/**
+ * Normalize a selector or function signature to a lowercase 4-byte selector
+ */
+function toSelector(selectorOrSignature: string): string {
+  if (/^0x[a-fA-F0-9]{8}$/.test(selectorOrSignature)) {
+    return selectorOrSignature.toLowerCase();
+  }
+  return ethers.id(selectorOrSignature.replace(/\s+/g, '')).slice(0, 10);
+}
+
+/**
+ * Find the policy configured for a sponsor (addresses are compared case-insensitively)
+ */
+export function findSponsorPolicy(
+  policies: Record<string, SponsorPolicy> | undefined,
+  sponsorAddress: string
+): SponsorPolicy | undefined {
+  if (!policies) return undefined;
+
+  const key = Object.keys(policies).find(
+    (address) => address.toLowerCase() === sponsorAddress.toLowerCase()
+  );
+  return key ? policies[key] : undefined;
+}
+
+/**
+ * Build the quota counter key for a user, sponsor and UTC day
+ */
+export function getQuotaKey(
+  chainId: number,
+  sponsorAddress: string,
+  userAddress: string,
+  now: Date = new Date()
+): string {
+  const day = now.toISOString().slice(0, 10);
+  return `${chainId}:${sponsorAddress.toLowerCase()}:${userAddress.toLowerCase()}:${day}`;
+}
+
+/**
+ * Milliseconds until the end of the UTC day, after which its quota counters are no longer read
+ */
+function untilEndOfDay(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+}
+
+/** Pending counter updates per key, for stores without an atomic increment */
+const counterUpdates = new Map<string, Promise<number>>();
+
+/**
+ * Add to a quota counter and return its new value
+ *
+ * Uses the store's atomic `increment` when it has one. Otherwise the
+ * read-modify-write is serialized per key, which only protects against
+ * concurrent relays within this process.
+ */
+async function incrementCounter(
+  store: KeyValueStore<number>,
+  key: string,
+  delta: number,
+  ttl: number
+): Promise<number> {
+  if (store.increment) {
+    return store.increment(key, delta, ttl);
+  }
+
+  const update = (counterUpdates.get(key) ?? Promise.resolve(0))
+    .catch(() => 0)
+    .then(async () => {
+      const value = ((await store.get(key)) ?? 0) + delta;
+      await store.set(key, value);
+      return value;
+    });
+  counterUpdates.set(key, update);
+
+  try {
+    return await update;
+  } finally {
+    if (counterUpdates.get(key) === update) {
+      counterUpdates.delete(key);
+    }
+  }
+}
+
+/**
+ * Evaluate the built-in rules of a single policy
+ * @throws SponsorPolicyViolationError naming the rule that failed
+ */
+async function checkPolicyRules(
+  policy: SponsorPolicy,
+  context: SponsorPolicyContext,
+  options: {
+    quotaStore: KeyValueStore<number>;
+    estimateGas: (sponsorAddress: string) => Promise<bigint>;
+  }
+): Promise<void> {
+  const target = context.target.toLowerCase();
+
+  if (policy.allowedTargets &&
+    !policy.allowedTargets.some((address) => address.toLowerCase() === target)) {
+    throw new SponsorPolicyViolationError(
+      'allowedTargets',
+      `Sponsor ${context.sponsorAddress} does not sponsor calls to ${context.target}`,
+      context
+    );
+  }
+
+  if (policy.allowedSelectors) {
+    let allowed: string[] | undefined;
+    if (Array.isArray(policy.allowedSelectors)) {
+      allowed = policy.allowedSelectors;
+    } else {
+      const key = Object.keys(policy.allowedSelectors).find(
+        (address) => address.toLowerCase() === target
+      );
+      allowed = key ? policy.allowedSelectors[key] : [];
+    }
+
+    if (!allowed.map(toSelector).includes(context.selector)) {
+      throw new SponsorPolicyViolationError(
+        'allowedSelectors',
+        `Sponsor ${context.sponsorAddress} does not sponsor function ${context.selector} on ${context.target}`,
+        context
+      );
+    }
+  }
+
+  // Fails early before signing; the relay is only counted by reserveDailyQuota() at submission
+  if (policy.dailyUserQuota !== undefined) {
+    const used = (await options.quotaStore.get(
+      getQuotaKey(context.chainId, context.sponsorAddress, context.userAddress)
+    )) ?? 0;
+
+    if (used >= policy.dailyUserQuota) {
+      throw new SponsorPolicyViolationError(
+        'dailyUserQuota',
+        `User ${context.userAddress} has used ${used}/${policy.dailyUserQuota} sponsored relays today`,
+        { ...context, used, quota: policy.dailyUserQuota }
+      );
+    }
+  }
+
+  if (policy.maxGasPerTx !== undefined) {
+    const maxGas = BigInt(policy.maxGasPerTx);
+    const gasEstimate = await options.estimateGas(context.sponsorAddress);
+
+    if (gasEstimate > maxGas) {
+      throw new SponsorPolicyViolationError(
+        'maxGasPerTx',
+        `Estimated gas ${gasEstimate} exceeds sponsor limit of ${maxGas}`,
+        { ...context, gasEstimate, maxGas }
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate sponsor policies for a request
+ *
+ * Runs the policy of the requested sponsor, then its hook. A hook may
+ * reroute the request to another sponsor, whose policy is evaluated in turn.
+ * Sponsors without a configured policy allow every request.
+ *
+ * @param policies - Policies keyed by sponsor address
+ * @param context - Request details, with the initially selected sponsor
+ * @param options - Quota store and gas estimator
+ * @returns The sponsor address the request should be signed for
+ * @throws SponsorPolicyViolationError naming the rule that failed
+ */
+export async function evaluateSponsorPolicies(
+  policies: Record<string, SponsorPolicy> | undefined,
+  context: Omit<SponsorPolicyContext, 'selector'>,
+  options: {
+    quotaStore: KeyValueStore<number>;
+    estimateGas: (sponsorAddress: string) => Promise<bigint>;
+  }
+): Promise<string> {
+  const selector = context.data.slice(0, 10).toLowerCase();
+  let sponsorAddress = context.sponsorAddress;
+
+  for (let reroutes = 0; ; reroutes++) {
+    const policy = findSponsorPolicy(policies, sponsorAddress);
+    if (!policy) {
+      return sponsorAddress;
+    }
+
+    const policyContext: SponsorPolicyContext = { ...context, sponsorAddress, selector };
+    await checkPolicyRules(policy, policyContext, options);
+
+    const decision = policy.hook ? await policy.hook(policyContext) : undefined;
+
+    if (!decision || decision.action === 'allow') {
+      return sponsorAddress;
+    }
+
+    if (decision.action === 'deny') {
+      throw new SponsorPolicyViolationError('hook', decision.reason, policyContext);
+    }
+
+    if (reroutes >= MAX_REROUTES) {
+      throw new SponsorPolicyViolationError(
+        'hook',
+        `Sponsor policy rerouted more than ${MAX_REROUTES} times`,
+        policyContext
+      );
+    }
+
+    sponsorAddress = decision.sponsorAddress;
+  }
+}
+
+/**
+ * Reserve one sponsored relay from the user's daily quota
+ *
+ * The counter is incremented first and the increment undone if it went over
+ * the quota, so concurrent relays cannot all pass a check made before any of
+ * them was counted. Counters expire at the end of their UTC day.
+ *
+ * @param quotaStore - Quota counter store
+ * @param context - Chain, sponsor and user of the relay
+ * @param quota - Relays allowed per user and UTC day
+ * @returns Key of the reserved counter, for `releaseDailyQuota()`
+ * @throws SponsorPolicyViolationError if the quota is used up
+ */
+export async function reserveDailyQuota(
+  quotaStore: KeyValueStore<number>,
+  context: { chainId: number; sponsorAddress: string; userAddress: string },
+  quota: number
+): Promise<string> {
+  const now = new Date();
+  const key = getQuotaKey(context.chainId, context.sponsorAddress, context.userAddress, now);
+  const ttl = untilEndOfDay(now);
+
+  const used = await incrementCounter(quotaStore, key, 1, ttl);
+  if (used > quota) {
+    await incrementCounter(quotaStore, key, -1, ttl);
+    throw new SponsorPolicyViolationError(
+      'dailyUserQuota',
+      `User ${context.userAddress} has used ${used - 1}/${quota} sponsored relays today`,
+      { ...context, used: used - 1, quota }
+    );
+  }
+
+  return key;
+}
+
+/**
+ * Give back a relay reserved with `reserveDailyQuota()`, e.g. when submission failed
+ *
+ * @param quotaStore - Quota counter store
+ * @param key - Key returned by `reserveDailyQuota()`
+ */
+export async function releaseDailyQuota(quotaStore: KeyValueStore<number>, key: string): Promise<void> {
+  await incrementCounter(quotaStore, key, -1, untilEndOfDay(new Date()));
+}
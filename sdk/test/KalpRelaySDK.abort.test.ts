@@ -0,0 +1,84 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHAIN_ID,
+  TARGET,
+  USER,
+  createFakeProvider,
+  createSigner,
+  createTestSDK,
+  jsonResponse,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import type { RelayFailedEvent } from '../types';
+
+const params = { target: TARGET, data: '0xd09de08a', userAddress: USER };
+
+const isAborted = (error: any) => error.name === 'RelayAbortedError' && error.code === 'RELAY_ABORTED';
+
+describe('KalpRelaySDK abort signals', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('does not ask for a signature when the signal is already aborted', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.executeRelay(params, undefined, { signal: AbortSignal.abort() }), isAborted);
+
+    assert.equal(signer.requests.length, 0);
+    assert.equal(calls.length, 0);
+  });
+
+  it('cancels an in-flight submission and reports the failed step', async () => {
+    const sdk = createTestSDK();
+    const failed: RelayFailedEvent[] = [];
+    sdk.on('failed', (event) => failed.push(event));
+    const controller = new AbortController();
+    const { calls, restore: restoreFetch } = stubFetch(() => {
+      controller.abort();
+      return new Promise(() => {});
+    });
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.executeRelay(params, undefined, { signal: controller.signal }), isAborted);
+
+    assert.equal(calls.length, 1);
+    assert.equal(calls[0].signal?.aborted, true);
+    assert.deepEqual(failed.map(({ stage }) => stage), ['submit']);
+  });
+
+  it('stops waiting for a retry', async () => {
+    const sdk = createTestSDK({ retry: { initialDelay: 60000, jitter: 0 } });
+    const controller = new AbortController();
+    sdk.on('retryScheduled', () => controller.abort());
+    const { calls, restore: restoreFetch } = stubFetch(() => jsonResponse({ error: 'busy' }, 503));
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.executeRelay(params, undefined, { signal: controller.signal }), isAborted);
+
+    assert.equal(calls.length, 1);
+  });
+
+  it('stops waiting for the receipt', async () => {
+    const sdk = createTestSDK();
+    const controller = new AbortController();
+    let polls = 0;
+    sdk.setProvider(CHAIN_ID, createFakeProvider({}, {
+      getTransactionReceipt: async () => {
+        if (++polls === 2) controller.abort();
+        return null;
+      },
+    }));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    await assert.rejects(
+      sdk.executeRelay(params, undefined, { signal: controller.signal, waitForReceipt: { pollInterval: 1 } }),
+      isAborted
+    );
+    assert.equal(polls, 2);
+  });
+});
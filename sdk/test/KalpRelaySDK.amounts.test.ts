@@ -0,0 +1,113 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  FACILITATOR,
+  RECIPIENT,
+  SPONSOR,
+  TOKEN,
+  USER,
+  createFacilitator,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  revertWith,
+  stubFetch,
+} from './helpers';
+import type { FakeContract } from './helpers';
+
+const facilitatorInterface = new ethers.Interface([
+  'function facilitateTransferWithPermit(address token, address owner, address to, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+const transfer = {
+  tokenAddress: TOKEN,
+  recipient: RECIPIENT,
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+  permitMethod: 'eip2612' as const,
+};
+
+/** Six-decimal permit token, holding 1000 tokens per owner */
+const usdcLike = (methods: FakeContract['methods'] = {}) =>
+  createPermitToken({ decimals: () => 6n, balanceOf: () => 1000n * 10n ** 6n, ...methods });
+
+describe('KalpRelaySDK decimal token amounts', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  const setup = (token: FakeContract = usdcLike()) => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: token, [FACILITATOR]: createFacilitator() }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    return { sdk, signer, calls };
+  };
+
+  it('converts a decimal amount with the token decimals', async () => {
+    const { sdk, signer, calls } = setup();
+
+    await sdk.sendTokenTransfer({ ...transfer, amount: ' 12.5 ', amountFormat: 'decimal' }, undefined, { waitForReceipt: false });
+
+    assert.equal(signer.requests[0].message.value, 12500000n);
+    const decoded = facilitatorInterface.decodeFunctionData('facilitateTransferWithPermit', calls[0].body.data);
+    assert.equal(decoded.value, 12500000n);
+  });
+
+  it('treats amounts as base units by default', async () => {
+    const { sdk, signer } = setup();
+
+    await sdk.sendTokenTransfer({ ...transfer, amount: '125' }, undefined, { waitForReceipt: false });
+    await sdk.sendTokenTransfer({ ...transfer, amount: 7n, amountFormat: 'decimal' }, undefined, { waitForReceipt: false });
+
+    assert.equal(signer.requests[0].message.value, 125n);
+    assert.equal(signer.requests[2].message.value, 7n);
+  });
+
+  it('rejects more fraction digits than the token has before any signature', async () => {
+    const { sdk, signer, calls } = setup();
+
+    await assert.rejects(
+      sdk.sendTokenTransfer({ ...transfer, amount: '1.0000001', amountFormat: 'decimal' }),
+      /Invalid token amount "1.0000001" for a token with 6 decimals/
+    );
+    await assert.rejects(
+      sdk.sendTokenTransfer({ ...transfer, amount: '1,5', amountFormat: 'decimal' }),
+      /Invalid token amount "1,5"/
+    );
+    assert.equal(signer.requests.length, 0);
+    assert.equal(calls.length, 0);
+  });
+
+  it('refuses decimal amounts for tokens without decimals()', async () => {
+    const { sdk, signer } = setup(usdcLike({ decimals: () => { throw revertWith('0x'); } }));
+
+    await assert.rejects(
+      sdk.sendTokenTransfer({ ...transfer, amount: '1', amountFormat: 'decimal' }),
+      new RegExp(`Failed to get decimals for token ${TOKEN}`)
+    );
+    assert.equal(signer.requests.length, 0);
+  });
+
+  it('converts each recipient of a bulk transfer', async () => {
+    const { sdk, signer } = setup();
+
+    const result = await sdk.sendBulkTokenTransfer({
+      tokenAddress: TOKEN,
+      recipients: [
+        { to: RECIPIENT, amount: '1.5' },
+        { to: SPONSOR, amount: '0.000001' },
+      ],
+      userAddress: USER,
+      facilitatorAddress: FACILITATOR,
+      amountFormat: 'decimal',
+    }, undefined, { waitForReceipt: false });
+
+    assert.equal(result.totalAmount, 1500001n);
+    assert.equal(signer.requests[0].message.value, 1500001n);
+  });
+});
@@ -0,0 +1,52 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TARGET, USER, createSigner, createTestSDK, relayAccepted, stubFetch } from './helpers';
+import { MULTICALL3_ADDRESS } from '../multicall';
+
+const FORWARDER = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const calls = [
+  { target: TARGET, data: '0xd09de08a' },
+  { target: TARGET, data: '0xd09de08a' },
+];
+
+describe('KalpRelaySDK.executeRelayBatch', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('refuses a batch forwarder behind a relayer that does not append the sender', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+
+    await assert.rejects(
+      sdk.executeRelayBatch({ calls, userAddress: USER }, undefined, { forwarderAddress: FORWARDER }),
+      /relayerAppendsSender/
+    );
+    assert.equal(signer.requests.length, 0);
+  });
+
+  it('relays through the forwarder when the relayer appends the sender', async () => {
+    const sdk = createTestSDK({ relayerAppendsSender: true });
+    const { calls: requests, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    const result = await sdk.executeRelayBatch({ calls, userAddress: USER }, undefined, {
+      forwarderAddress: FORWARDER,
+      waitForReceipt: false,
+    });
+
+    assert.equal(result.batchTarget, FORWARDER);
+    assert.equal(requests[0].body.contractAddress, FORWARDER);
+  });
+
+  it('relays sender-independent calls through Multicall3 on any relayer', async () => {
+    const sdk = createTestSDK();
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    const result = await sdk.executeRelayBatch({ calls, userAddress: USER }, undefined, {
+      senderIndependent: true,
+      waitForReceipt: false,
+    });
+
+    assert.equal(result.batchTarget, MULTICALL3_ADDRESS);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  FACILITATOR,
+  RECIPIENT,
+  SPONSOR,
+  TOKEN,
+  USER,
+  createFacilitator,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+
+const facilitatorInterface = new ethers.Interface([
+  'function facilitateBulkTransferWithPermit(address token, address owner, (address to, uint256 amount)[] recipients, uint256 totalValue, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+const bulkTransfer = {
+  tokenAddress: TOKEN,
+  recipients: [
+    { to: RECIPIENT, amount: 100n },
+    { to: SPONSOR, amount: 200n },
+  ],
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+};
+
+describe('KalpRelaySDK.sendBulkTokenTransfer', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs one permit for the total and relays facilitateBulkTransferWithPermit', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: createPermitToken(), [FACILITATOR]: createFacilitator() }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    const result = await sdk.sendBulkTokenTransfer(bulkTransfer, undefined, { waitForReceipt: false });
+
+    assert.equal(result.totalAmount, 300n);
+    assert.deepEqual(result.recipients, bulkTransfer.recipients);
+
+    const [permit, relayRequest] = signer.requests;
+    assert.equal(permit.primaryType, 'Permit');
+    assert.equal(permit.message.spender, FACILITATOR);
+    assert.equal(permit.message.value, 300n);
+    assert.equal(relayRequest.primaryType, 'RelayRequest');
+
+    assert.equal(calls[0].body.contractAddress, FACILITATOR);
+    const decoded = facilitatorInterface.decodeFunctionData('facilitateBulkTransferWithPermit', calls[0].body.data);
+    assert.equal(decoded.owner, USER);
+    assert.equal(decoded.totalValue, 300n);
+    assert.deepEqual(
+      decoded.recipients.map(({ to, amount }: { to: string; amount: bigint }) => ({ to, amount })),
+      bulkTransfer.recipients
+    );
+  });
+
+  it('rejects invalid recipient lists before any signature', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: createPermitToken(), [FACILITATOR]: createFacilitator() }));
+
+    await assert.rejects(sdk.sendBulkTokenTransfer({ ...bulkTransfer, recipients: [] }), /must not be empty/);
+    await assert.rejects(
+      sdk.sendBulkTokenTransfer({ ...bulkTransfer, recipients: [bulkTransfer.recipients[0], bulkTransfer.recipients[0]] }),
+      /Duplicate recipient/
+    );
+    assert.equal(signer.requests.length, 0);
+  });
+
+  it('does not relay a permit the facilitator has already used', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: createPermitToken(), [FACILITATOR]: createFacilitator(true) }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.sendBulkTokenTransfer(bulkTransfer), { name: 'PermitAlreadyUsedError' });
+    assert.equal(calls.length, 0);
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { TARGET, USER, createTestSDK, relayAccepted, stubFetch } from './helpers';
+
+const COUNTER_ABI = ['function increment() returns (uint256)', 'function setCount(uint256 count)'];
+
+describe('KalpRelaySDK.contract', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('appends the user to the calldata for relayers that forward it unchanged', async () => {
+    const sdk = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const counter = sdk.contract(TARGET, COUNTER_ABI, { userAddress: USER });
+
+    await counter.gasless.setCount(42n, { waitForReceipt: false });
+
+    const callData = counter.encode.setCount(42n);
+    assert.equal(calls[0].body.data, ethers.hexlify(ethers.concat([callData, USER])));
+    assert.equal(calls[0].body.contractAddress, TARGET);
+  });
+
+  it('relays the plain calldata when the relayer appends the sender', async () => {
+    const sdk = createTestSDK({ relayerAppendsSender: true });
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const counter = sdk.contract(TARGET, COUNTER_ABI, { userAddress: USER });
+
+    await counter.gasless.increment({ waitForReceipt: false });
+
+    assert.equal(calls[0].body.data, counter.encode.increment());
+  });
+
+  it('requires a user address', async () => {
+    const counter = createTestSDK().contract(TARGET, COUNTER_ABI);
+
+    await assert.rejects(counter.gasless.increment(), { name: 'WalletNotConnectedError' });
+  });
+});
@@ -0,0 +1,126 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  RELAYER,
+  SPONSOR,
+  TARGET,
+  USER,
+  createFakeProvider,
+  createTestSDK,
+  jsonResponse,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import type { KalpRelaySDK } from '../KalpRelaySDK';
+import type { RelayLifecycleEvents } from '../types';
+
+const EVENTS: Array<keyof RelayLifecycleEvents> = [
+  'signRequested',
+  'signed',
+  'submitAttempt',
+  'retryScheduled',
+  'queued',
+  'submitted',
+  'confirmed',
+  'failed',
+];
+
+const params = { target: TARGET, data: '0xd09de08a', userAddress: USER };
+
+/** Every lifecycle event the SDK emits, in order */
+const recordEvents = (sdk: KalpRelaySDK) => {
+  const events: Array<{ name: keyof RelayLifecycleEvents; payload: any }> = [];
+  for (const name of EVENTS) {
+    sdk.on(name, (payload) => events.push({ name, payload }));
+  }
+  return events;
+};
+
+const minedRelay = () => {
+  const log = new ethers.Interface([
+    'event RelayExecuted(address indexed target, address indexed user, address indexed sponsor, bool success, bytes result)',
+  ]).encodeEventLog('RelayExecuted', [TARGET, USER, SPONSOR, true, '0x']);
+  return createFakeProvider({}, {
+    getTransactionReceipt: async () => ({ status: 1, blockNumber: 100, gasUsed: 52000n, logs: [{ address: RELAYER, ...log }] }),
+  });
+};
+
+describe('KalpRelaySDK lifecycle events', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('emits each step of a relay in order under one correlation ID', async () => {
+    const sdk = createTestSDK({ retry: { jitter: 0 } });
+    sdk.setProvider(CHAIN_ID, minedRelay());
+    const events = recordEvents(sdk);
+    ({ restore } = stubFetch((_, index) => (index === 0 ? jsonResponse({ error: 'busy' }, 503) : relayAccepted())));
+
+    await sdk.executeRelay(params, undefined, { requestId: 'req-42', waitForReceipt: { pollInterval: 1 } });
+
+    assert.deepEqual(events.map(({ name }) => name), [
+      'signRequested',
+      'signed',
+      'submitAttempt',
+      'retryScheduled',
+      'submitAttempt',
+      'submitted',
+      'confirmed',
+    ]);
+    assert.ok(events.every(({ payload }) => payload.correlationId === 'req-42' && payload.chainId === CHAIN_ID));
+    assert.deepEqual(events[0].payload, {
+      correlationId: 'req-42',
+      chainId: CHAIN_ID,
+      kind: 'relayRequest',
+      userAddress: USER,
+      target: TARGET,
+    });
+    assert.equal(events[3].payload.attempt, 1);
+    assert.equal(events[3].payload.error.status, 503);
+    assert.equal(events[4].payload.attempt, 2);
+    assert.equal(events[5].payload.result.requestId, 'req-42');
+  });
+
+  it('emits failed with the stage that threw', async () => {
+    const sdk = createTestSDK();
+    const events = recordEvents(sdk);
+    ({ restore } = stubFetch(() => jsonResponse({ error: 'bad request' }, 400)));
+
+    await assert.rejects(sdk.executeRelay(params, undefined, { requestId: 'req-43' }), { name: 'RelayHttpError' });
+
+    const failed = events[events.length - 1];
+    assert.equal(failed.name, 'failed');
+    assert.equal(failed.payload.stage, 'submit');
+    assert.equal(failed.payload.correlationId, 'req-43');
+    assert.equal(failed.payload.error.status, 400);
+  });
+
+  it('reports a rejected signature as a failed sign step', async () => {
+    const sdk = createTestSDK({}, async () => {
+      throw new Error('User rejected the request');
+    });
+    const events = recordEvents(sdk);
+
+    await assert.rejects(sdk.executeRelay(params));
+
+    assert.deepEqual(events.map(({ name }) => name), ['signRequested', 'failed']);
+    assert.equal(events[1].payload.stage, 'sign');
+  });
+
+  it('keeps relaying when a listener throws and stops notifying unsubscribed listeners', async () => {
+    const sdk = createTestSDK();
+    const submitted: string[] = [];
+    sdk.on('signed', () => {
+      throw new Error('listener bug');
+    });
+    const unsubscribe = sdk.on('submitted', ({ result }) => submitted.push(result.txHash));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    const result = await sdk.executeRelay(params);
+    unsubscribe();
+    await sdk.executeRelay({ ...params, data: '0x2baeceb7' });
+
+    assert.deepEqual(submitted, [result.txHash]);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  FACILITATOR,
+  RECIPIENT,
+  TOKEN,
+  USER,
+  createFacilitator,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+
+const facilitatorInterface = new ethers.Interface([
+  'function facilitateTransferWithPermit(address token, address owner, address to, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateTransferWithNonceTracking(address token, address owner, address to, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateBulkTransferWithNonceTracking(address token, address owner, (address to, uint256 amount)[] recipients, uint256 totalValue, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+const transfer = {
+  tokenAddress: TOKEN,
+  recipient: RECIPIENT,
+  amount: 100n,
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+};
+
+const functionName = (data: string) => facilitatorInterface.parseTransaction({ data })?.name;
+
+describe('KalpRelaySDK facilitator modes', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  const setup = (permitUsed = false) => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: createPermitToken(), [FACILITATOR]: createFacilitator(permitUsed) }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    return { sdk, signer, calls };
+  };
+
+  it('relays facilitateTransferWithPermit by default', async () => {
+    const { sdk, calls } = setup();
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.equal(functionName(calls[0].body.data), 'facilitateTransferWithPermit');
+  });
+
+  it('relays the nonce-tracking entry points in nonceTracking mode', async () => {
+    const { sdk, calls } = setup();
+
+    await sdk.sendTokenTransfer({ ...transfer, facilitatorMode: 'nonceTracking' }, undefined, { waitForReceipt: false });
+    await sdk.sendBulkTokenTransfer(
+      {
+        tokenAddress: TOKEN,
+        recipients: [{ to: RECIPIENT, amount: 100n }],
+        userAddress: USER,
+        facilitatorAddress: FACILITATOR,
+        facilitatorMode: 'nonceTracking',
+      },
+      undefined,
+      { waitForReceipt: false }
+    );
+
+    assert.deepEqual(
+      calls.map(({ body }) => functionName(body.data)),
+      ['facilitateTransferWithNonceTracking', 'facilitateBulkTransferWithNonceTracking']
+    );
+  });
+
+  it('does not ask for the relay signature when the facilitator has used the permit', async () => {
+    const { sdk, signer, calls } = setup(true);
+
+    await assert.rejects(sdk.sendTokenTransfer({ ...transfer, facilitatorMode: 'nonceTracking' }), (error: any) => {
+      assert.equal(error.name, 'PermitAlreadyUsedError');
+      assert.equal(error.details.mode, 'nonceTracking');
+      return true;
+    });
+    assert.deepEqual(signer.requests.map(({ primaryType }) => primaryType), ['Permit']);
+    assert.equal(calls.length, 0);
+  });
+});
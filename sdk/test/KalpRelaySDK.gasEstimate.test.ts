@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { CHAIN_ID, RELAYER, SPONSOR, TARGET, USER, createFakeProvider, createTestSDK, errorString, revertWith } from './helpers';
+import { calldataGas } from '../utils';
+
+const data = '0xd09de08a';
+const params = { target: TARGET, data, userAddress: USER };
+const RELAYER_SENDER = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const SIGNATURE = '0x' + '11'.repeat(65);
+
+const relayerInterface = new ethers.Interface([
+  'function executeRelay(address target, bytes data, address user, bytes userSignature, address sponsor) returns (bool, bytes)',
+]);
+
+const relayerCallData = (signature: string) =>
+  relayerInterface.encodeFunctionData('executeRelay', [TARGET, data, USER, signature, SPONSOR]);
+
+/** Provider whose estimateGas returns `gas` and records the estimated transactions */
+const createEstimator = (gas: bigint | (() => never), extra: Record<string, unknown> = {}) => {
+  const estimated: Array<{ from: string; to: string; data: string }> = [];
+  const provider = createFakeProvider({}, {
+    estimateGas: async (tx: { from: string; to: string; data: string }) => {
+      estimated.push(tx);
+      return typeof gas === 'bigint' ? gas : gas();
+    },
+    ...extra,
+  });
+  return { provider, estimated };
+};
+
+describe('KalpRelaySDK.estimateRelayGas', () => {
+  it('adds the relayer overhead to the target call and prices it at maxFeePerGas', async () => {
+    const sdk = createTestSDK();
+    const { provider, estimated } = createEstimator(80000n);
+    sdk.setProvider(CHAIN_ID, provider);
+
+    const estimate = await sdk.estimateRelayGas(params);
+
+    const targetCallGas = 80000n - 21000n - calldataGas(data);
+    const relayerOverheadGas = 21000n + calldataGas(relayerCallData('0x' + 'ff'.repeat(65))) + 40000n;
+    const gasEstimate = targetCallGas + relayerOverheadGas;
+    const gasLimit = gasEstimate + gasEstimate / 5n;
+
+    assert.deepEqual(estimated, [{ from: RELAYER, to: TARGET, data }]);
+    assert.equal(estimate.method, 'target');
+    assert.equal(estimate.breakdown.targetCallGas, targetCallGas);
+    assert.equal(estimate.breakdown.relayerOverheadGas, relayerOverheadGas);
+    assert.equal(estimate.gasEstimate, gasEstimate);
+    assert.equal(estimate.gasLimit, gasLimit);
+    assert.equal(estimate.feePerGas, 2000000000n);
+    assert.equal(estimate.estimatedFee, gasLimit * 2000000000n);
+    assert.equal(estimate.estimatedFeeFormatted, ethers.formatEther(gasLimit * 2000000000n));
+    assert.equal(estimate.breakdown.baseFeePerGas, 1000000000n);
+  });
+
+  it('estimates executeRelay from the relayer sender with the signature', async () => {
+    const sdk = createTestSDK();
+    const { provider, estimated } = createEstimator(150000n);
+    sdk.setProvider(CHAIN_ID, provider);
+
+    const estimate = await sdk.estimateRelayGas(params, undefined, {
+      relayerSender: RELAYER_SENDER,
+      signature: SIGNATURE,
+      gasBufferPercent: 0,
+    });
+
+    assert.deepEqual(estimated, [{ from: RELAYER_SENDER, to: RELAYER, data: relayerCallData(SIGNATURE) }]);
+    assert.equal(estimate.method, 'relayer');
+    assert.equal(estimate.gasEstimate, 150000n);
+    assert.equal(estimate.gasLimit, 150000n);
+    assert.equal(estimate.breakdown.targetCallGas + estimate.breakdown.relayerOverheadGas, 150000n);
+  });
+
+  it('falls back to gasPrice on legacy chains', async () => {
+    const sdk = createTestSDK();
+    const { provider } = createEstimator(80000n, {
+      getFeeData: async () => ({ gasPrice: 3000000000n, maxFeePerGas: null, maxPriorityFeePerGas: null }),
+      getBlock: async () => ({ baseFeePerGas: null }),
+    });
+    sdk.setProvider(CHAIN_ID, provider);
+
+    const estimate = await sdk.estimateRelayGas(params);
+
+    assert.equal(estimate.feePerGas, 3000000000n);
+    assert.equal(estimate.estimatedFee, estimate.gasLimit * 3000000000n);
+    assert.equal(estimate.breakdown.baseFeePerGas, undefined);
+  });
+
+  it('decodes the revert reason when estimation fails', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createEstimator(() => { throw revertWith(errorString('Count too high')); }).provider);
+
+    await assert.rejects(sdk.estimateRelayGas(params), (error: any) => {
+      assert.equal(error.name, 'RelaySimulationError');
+      assert.match(error.message, /Count too high/);
+      return true;
+    });
+  });
+
+  it('requires a signature for the relayer call and RelayRequest v1', async () => {
+    const v1 = createTestSDK();
+    v1.setProvider(CHAIN_ID, createEstimator(80000n).provider);
+    const v2 = createTestSDK({ relayRequestVersion: 2 });
+    v2.setProvider(CHAIN_ID, createEstimator(80000n).provider);
+
+    await assert.rejects(
+      v1.estimateRelayGas(params, undefined, { relayerSender: RELAYER_SENDER }),
+      /signature is required/
+    );
+    await assert.rejects(
+      v2.estimateRelayGas(params, undefined, { relayerSender: RELAYER_SENDER, signature: SIGNATURE }),
+      /only supported for RelayRequest v1/
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHAIN_ID,
+  RELAYER,
+  TARGET,
+  TX_HASH,
+  USER,
+  createFakeProvider,
+  createTestSDK,
+  jsonResponse,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import type { KalpRelaySDK } from '../KalpRelaySDK';
+
+const LOOKUP_URL = 'https://relay.test/submissions';
+
+const signIncrement = async (sdk: KalpRelaySDK) =>
+  sdk.signRelay(await sdk.prepareRelayRequest({ target: TARGET, data: '0xd09de08a', userAddress: USER }));
+
+const networkError = () => {
+  throw new TypeError('fetch failed');
+};
+
+describe('KalpRelaySDK idempotent submission', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('does not post a v1 request again after an ambiguous failure without a lookup', async () => {
+    const sdk = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch((_call, index) => (index === 0 ? networkError() : relayAccepted()));
+    restore = restoreFetch;
+    const signed = await signIncrement(sdk);
+
+    await assert.rejects(sdk.submitSignedRelay(signed), { name: 'RelaySubmissionUnconfirmedError' });
+    await assert.rejects(sdk.submitSignedRelay(signed), { name: 'RelaySubmissionUnconfirmedError' });
+
+    assert.equal(calls.length, 1);
+  });
+
+  it('retries a request the relay API turned away, and allows resubmitting it', async () => {
+    const sdk = createTestSDK({ retry: { maxAttempts: 2 } });
+    const { calls, restore: restoreFetch } = stubFetch((_call, index) =>
+      index < 2 ? jsonResponse({ error: 'busy' }, 503) : relayAccepted()
+    );
+    restore = restoreFetch;
+    const signed = await signIncrement(sdk);
+
+    await assert.rejects(sdk.submitSignedRelay(signed), { name: 'RelayHttpError' });
+    const result = await sdk.submitSignedRelay(signed);
+
+    assert.equal(calls.length, 3);
+    assert.equal(result.txHash, TX_HASH);
+  });
+
+  it('posts again once the lookup finds no earlier submission', async () => {
+    const sdk = createTestSDK({ idempotencyLookupUrl: LOOKUP_URL });
+    const { calls, restore: restoreFetch } = stubFetch((call, index) => {
+      if (call.method === 'GET') {
+        return jsonResponse({ error: 'not found' }, 404);
+      }
+      return index === 0 ? networkError() : relayAccepted();
+    });
+    restore = restoreFetch;
+
+    const result = await sdk.submitSignedRelay(await signIncrement(sdk));
+
+    assert.deepEqual(calls.map(({ method }) => method), ['POST', 'GET', 'POST']);
+    assert.equal(calls[1].url, `${LOOKUP_URL}/${result.idempotencyKey}`);
+  });
+
+  it('returns the submission the lookup found instead of posting again', async () => {
+    const sdk = createTestSDK({ idempotencyLookupUrl: LOOKUP_URL });
+    const { calls, restore: restoreFetch } = stubFetch((call) =>
+      call.method === 'GET' ? { taskId: 'task-1', state: 'submitted', txHash: TX_HASH } : networkError()
+    );
+    restore = restoreFetch;
+
+    const result = await sdk.submitSignedRelay(await signIncrement(sdk));
+
+    assert.deepEqual(calls.map(({ method }) => method), ['POST', 'GET']);
+    assert.equal(result.txHash, TX_HASH);
+  });
+
+  it('posts a v2 request again, since the relayer consumes its nonce', async () => {
+    const sdk = createTestSDK({ relayRequestVersion: 2 });
+    sdk.setProvider(CHAIN_ID, createFakeProvider({
+      [RELAYER]: { abi: ['function nonces(address user) view returns (uint256)'], methods: { nonces: () => 3n } },
+    }));
+    const { calls, restore: restoreFetch } = stubFetch((_call, index) => (index === 0 ? networkError() : relayAccepted()));
+    restore = restoreFetch;
+
+    await sdk.submitSignedRelay(await signIncrement(sdk));
+
+    assert.equal(calls.length, 2);
+    assert.equal(calls[1].body.nonce, '3');
+  });
+});
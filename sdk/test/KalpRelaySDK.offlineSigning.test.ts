@@ -0,0 +1,94 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHAIN_ID, RELAYER, SPONSOR, TARGET, TX_HASH, USER, createFakeProvider, createSigner, createTestSDK, relayAccepted, stubFetch } from './helpers';
+import { parseSignedRelay, serializeSignedRelay } from '../signedRelay';
+
+const params = { target: TARGET, data: '0xd09de08a', userAddress: USER };
+const OTHER_RELAYER = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+/** SDK on the backend, which never asks anyone to sign */
+const createBackendSDK = (config = {}) =>
+  createTestSDK(config, async () => {
+    throw new Error('The backend must not sign');
+  });
+
+describe('KalpRelaySDK offline signing', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('submits a request signed on another device', async () => {
+    const signer = createSigner();
+    const device = createTestSDK({}, signer);
+    const backend = createBackendSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    const prepared = await device.prepareRelayRequest(params, undefined, { requestId: 'req-7' });
+    const wire = serializeSignedRelay(await device.signRelay(prepared));
+    assert.equal(calls.length, 0);
+
+    const result = await backend.submitSignedRelay(parseSignedRelay(wire));
+
+    assert.equal(signer.requests.length, 1);
+    assert.equal(result.txHash, TX_HASH);
+    assert.equal(result.requestId, 'req-7');
+    assert.deepEqual(calls[0].body, {
+      chainId: CHAIN_ID,
+      contractAddress: TARGET,
+      userAddress: USER,
+      data: params.data,
+      userSignature: JSON.parse(wire).signature,
+      sponsor: SPONSOR,
+    });
+  });
+
+  it('carries the v2 nonce and deadline through the envelope', async () => {
+    const device = createTestSDK({ relayRequestVersion: 2 });
+    device.setProvider(CHAIN_ID, createFakeProvider({
+      [RELAYER]: { abi: ['function nonces(address user) view returns (uint256)'], methods: { nonces: () => 3n } },
+    }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const deadline = Math.floor(Date.now() / 1000) + 600;
+
+    const signed = await device.signRelay(await device.prepareRelayRequest({ ...params, deadline }));
+    await createBackendSDK({ relayRequestVersion: 2 }).submitSignedRelay(parseSignedRelay(serializeSignedRelay(signed)));
+
+    assert.equal(calls[0].body.nonce, '3');
+    assert.equal(calls[0].body.deadline, String(deadline));
+  });
+
+  it('rejects an envelope signed for another relayer', async () => {
+    const device = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await device.signRelay(await device.prepareRelayRequest(params));
+
+    await assert.rejects(
+      createBackendSDK({ relayerAddress: OTHER_RELAYER }).submitSignedRelay(signed),
+      new RegExp(`is for relayer ${RELAYER}, but chain ${CHAIN_ID} uses ${OTHER_RELAYER}`)
+    );
+    assert.equal(calls.length, 0);
+  });
+
+  it('rejects an expired envelope without posting it', async () => {
+    const device = createTestSDK({ relayRequestVersion: 2 });
+    device.setProvider(CHAIN_ID, createFakeProvider({
+      [RELAYER]: { abi: ['function nonces(address user) view returns (uint256)'], methods: { nonces: () => 0n } },
+    }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await device.signRelay(await device.prepareRelayRequest(params));
+    const expired = { ...signed, message: { ...signed.message, deadline: String(Math.floor(Date.now() / 1000) - 1) } };
+
+    await assert.rejects(createBackendSDK({ relayRequestVersion: 2 }).submitSignedRelay(expired), /has expired/);
+    assert.equal(calls.length, 0);
+  });
+
+  it('rejects a malformed envelope', async () => {
+    await assert.rejects(
+      createBackendSDK().submitSignedRelay(JSON.parse('{"format":2}')),
+      /unsupported format 2/
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  FACILITATOR,
+  RECIPIENT,
+  TOKEN,
+  USER,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import { PERMIT2_ADDRESS } from '../tokenTransfer';
+import type { FakeContract } from './helpers';
+
+const facilitatorInterface = new ethers.Interface([
+  'function facilitateTransferWithPermit2(address owner, ((address token, uint256 amount) permitted, uint256 nonce, uint256 deadline) permit, address to, bytes signature)',
+]);
+
+const transfer = {
+  tokenAddress: TOKEN,
+  recipient: RECIPIENT,
+  amount: 100n,
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+};
+
+/** Token the user has approved Permit2 (at `permit2Address`) to move */
+const approvedToken = (permit2Address = PERMIT2_ADDRESS) => createPermitToken({
+  allowance: (_owner: string, spender: string) => (spender === permit2Address ? 10n ** 24n : 0n),
+});
+
+/** Permit2 with the given nonce bitmap words */
+const createPermit2 = (words: bigint[] = []): FakeContract => ({
+  abi: ['function nonceBitmap(address owner, uint256 wordPos) view returns (uint256)'],
+  methods: { nonceBitmap: (_owner: string, wordPos: bigint) => words[Number(wordPos)] ?? 0n },
+});
+
+/** Facilitator reporting no EIP-2612 support, counting how often it is asked */
+const createPermit2Facilitator = () => {
+  const counter = { supportsPermit: 0 };
+  const facilitator: FakeContract = {
+    abi: ['function supportsPermit(address token) view returns (bool)'],
+    methods: { supportsPermit: () => (counter.supportsPermit++, false) },
+  };
+  return { facilitator, counter };
+};
+
+describe('KalpRelaySDK Permit2 transfers', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs a witness transfer to the recipient and relays facilitateTransferWithPermit2', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: approvedToken(), [PERMIT2_ADDRESS]: createPermit2([0b111n]) }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await sdk.sendTokenTransfer({ ...transfer, permitMethod: 'permit2' }, undefined, { waitForReceipt: false });
+
+    const [permit] = signer.requests;
+    assert.equal(permit.primaryType, 'PermitWitnessTransferFrom');
+    assert.deepEqual(permit.domain, { name: 'Permit2', chainId: CHAIN_ID, verifyingContract: PERMIT2_ADDRESS });
+    assert.deepEqual(permit.message.permitted, { token: TOKEN, amount: 100n });
+    assert.equal(permit.message.spender, FACILITATOR);
+    assert.equal(permit.message.nonce, 3n);
+    assert.deepEqual(permit.message.witness, { to: RECIPIENT });
+
+    const [owner, [[token, amount], nonce, deadline], to, signature] =
+      facilitatorInterface.decodeFunctionData('facilitateTransferWithPermit2', calls[0].body.data);
+    assert.deepEqual([owner, token, amount, nonce, to], [USER, TOKEN, 100n, 3n, RECIPIENT]);
+    assert.equal(deadline, permit.message.deadline);
+    assert.equal(calls[0].body.contractAddress, FACILITATOR);
+
+    assert.equal(ethers.verifyTypedData(permit.domain!, permit.types, permit.message, signature), USER);
+  });
+
+  it('uses the first nonce of the next bitmap word once a word is used up', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({
+      [TOKEN]: approvedToken(),
+      [PERMIT2_ADDRESS]: createPermit2([2n ** 256n - 1n]),
+    }));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    await sdk.sendTokenTransfer({ ...transfer, permitMethod: 'permit2' }, undefined, { waitForReceipt: false });
+
+    assert.equal(signer.requests[0].message.nonce, 256n);
+  });
+
+  it('signs for a custom Permit2 deployment', async () => {
+    const permit2Address = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: approvedToken(permit2Address), [permit2Address]: createPermit2() }));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    await sdk.sendTokenTransfer({ ...transfer, permitMethod: 'permit2', permit2Address }, undefined, { waitForReceipt: false });
+
+    assert.equal(signer.requests[0].domain?.verifyingContract, permit2Address);
+  });
+
+  it('falls back to Permit2 for tokens the facilitator has no permit support for, once per token', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    const { facilitator, counter } = createPermit2Facilitator();
+    sdk.setProvider(CHAIN_ID, createFakeProvider({
+      [TOKEN]: approvedToken(),
+      [PERMIT2_ADDRESS]: createPermit2(),
+      [FACILITATOR]: facilitator,
+    }));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.equal(counter.supportsPermit, 1);
+    assert.deepEqual(
+      signer.requests.map(({ primaryType }) => primaryType),
+      ['PermitWitnessTransferFrom', 'RelayRequest', 'PermitWitnessTransferFrom', 'RelayRequest']
+    );
+  });
+});
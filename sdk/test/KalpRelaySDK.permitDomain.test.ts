@@ -0,0 +1,123 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  FACILITATOR,
+  RECIPIENT,
+  TOKEN,
+  TOKEN_DOMAIN,
+  USER,
+  createFacilitator,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  revertWith,
+  stubFetch,
+} from './helpers';
+import { computeDomainSeparator } from '../eip712';
+import type { FakeContract } from './helpers';
+import type { OnChainEip712Domain, RelayFailedEvent } from '../types';
+
+const transfer = {
+  tokenAddress: TOKEN,
+  recipient: RECIPIENT,
+  amount: 100n,
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+  permitMethod: 'eip2612' as const,
+};
+
+/** Permit token whose DOMAIN_SEPARATOR() is computed over `domain` */
+const tokenWithDomain = (domain: OnChainEip712Domain, methods: FakeContract['methods'] = {}) =>
+  createPermitToken({ DOMAIN_SEPARATOR: () => computeDomainSeparator(domain), ...methods });
+
+/** Token implementing ERC-5267 `eip712Domain()` without a salt */
+const withEip5267 = (token: FakeContract, domain: { name: string; version: string; chainId: number }): FakeContract => ({
+  abi: [
+    ...token.abi,
+    'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  ],
+  methods: {
+    ...token.methods,
+    eip712Domain: () => ['0x0f', domain.name, domain.version, domain.chainId, TOKEN, ethers.ZeroHash, []],
+  },
+});
+
+describe('KalpRelaySDK permit domains', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  const setup = (token: FakeContract) => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: token, [FACILITATOR]: createFacilitator() }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    return { sdk, signer, calls };
+  };
+
+  it('signs the permit with the name() and version() the token separator matches', async () => {
+    const { sdk, signer } = setup(createPermitToken());
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signer.requests[0].domain, TOKEN_DOMAIN);
+  });
+
+  it('leaves the version out for tokens that sign without one', async () => {
+    const domain = { name: TOKEN_DOMAIN.name, chainId: CHAIN_ID, verifyingContract: TOKEN } as const;
+    const { sdk, signer } = setup(tokenWithDomain(domain, { version: () => { throw revertWith('0x'); } }));
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signer.requests[0].domain, domain);
+  });
+
+  it('uses the chain ID salt of bridged tokens', async () => {
+    const domain = {
+      name: TOKEN_DOMAIN.name,
+      version: '1',
+      verifyingContract: TOKEN,
+      salt: ethers.zeroPadValue(ethers.toBeHex(CHAIN_ID), 32) as `0x${string}`,
+    } as const;
+    const { sdk, signer } = setup(tokenWithDomain(domain));
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signer.requests[0].domain, domain);
+  });
+
+  it('prefers the domain the token reports through eip712Domain()', async () => {
+    const domain = { name: 'Renamed Token', version: '2', chainId: CHAIN_ID, verifyingContract: TOKEN } as const;
+    const token = withEip5267(tokenWithDomain(domain), domain);
+    const { sdk, signer } = setup(token);
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signer.requests[0].domain, domain);
+  });
+
+  it('refuses to sign when no candidate matches the token separator', async () => {
+    const { sdk, signer, calls } = setup(createPermitToken({ DOMAIN_SEPARATOR: () => ethers.ZeroHash }));
+    const failed: RelayFailedEvent[] = [];
+    sdk.on('failed', (event) => failed.push(event));
+
+    await assert.rejects(sdk.sendTokenTransfer(transfer), { name: 'PermitDomainMismatchError' });
+
+    assert.equal(signer.requests.length, 0);
+    assert.equal(calls.length, 0);
+    assert.deepEqual(failed.map(({ stage }) => stage), ['permit']);
+  });
+
+  it('signs with an explicit tokenDomain as given', async () => {
+    const tokenDomain = { ...TOKEN_DOMAIN, version: '3' };
+    const { sdk, signer } = setup(createPermitToken({ DOMAIN_SEPARATOR: () => ethers.ZeroHash }));
+
+    await sdk.sendTokenTransfer({ ...transfer, tokenDomain }, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signer.requests[0].domain, tokenDomain);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SPONSOR, TARGET, USER, createTestSDK, jsonResponse, relayAccepted, stubFetch } from './helpers';
+import type { KalpRelaySDK } from '../KalpRelaySDK';
+
+const createQuotaSDK = () => createTestSDK({ sponsorPolicies: { [SPONSOR]: { dailyUserQuota: 1 } } });
+
+const signIncrement = async (sdk: KalpRelaySDK, data = '0xd09de08a') =>
+  sdk.signRelay(await sdk.prepareRelayRequest({ target: TARGET, data, userAddress: USER }));
+
+describe('KalpRelaySDK daily quota reservation', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('does not reserve quota again when a completed request is resubmitted', async () => {
+    const sdk = createQuotaSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await signIncrement(sdk);
+
+    const first = await sdk.submitSignedRelay(signed);
+    const second = await sdk.submitSignedRelay(signed);
+
+    assert.equal(calls.length, 1);
+    assert.equal(second.txHash, first.txHash);
+  });
+
+  it('does not reserve quota when joining an in-flight submission', async () => {
+    const sdk = createQuotaSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await signIncrement(sdk);
+
+    await Promise.all([sdk.submitSignedRelay(signed), sdk.submitSignedRelay(signed)]);
+
+    assert.equal(calls.length, 1);
+  });
+
+  it('rejects another request once the quota is used up, even if both were signed first', async () => {
+    const sdk = createQuotaSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const first = await signIncrement(sdk);
+    const next = await signIncrement(sdk, '0x2baeceb7');
+
+    await sdk.submitSignedRelay(first);
+
+    await assert.rejects(sdk.submitSignedRelay(next), { name: 'SponsorPolicyViolationError' });
+    assert.equal(calls.length, 1);
+  });
+
+  it('gives the quota back when the submission fails', async () => {
+    const sdk = createQuotaSDK();
+    const { calls, restore: restoreFetch } = stubFetch((_call, index) =>
+      index === 0 ? jsonResponse({ error: 'bad request' }, 400) : relayAccepted()
+    );
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.submitSignedRelay(await signIncrement(sdk)), { name: 'RelayHttpError' });
+    await sdk.submitSignedRelay(await signIncrement(sdk, '0x2baeceb7'));
+
+    assert.equal(calls.length, 2);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  RELAYER,
+  SPONSOR,
+  TARGET,
+  TX_HASH,
+  USER,
+  createFakeProvider,
+  createTestSDK,
+  errorString,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import type { RelayReceipt } from '../types';
+
+const relayerInterface = new ethers.Interface([
+  'event RelayExecuted(address indexed target, address indexed user, address indexed sponsor, bool success, bytes result)',
+]);
+
+const minedReceipt = (success: boolean, result: string, status = 1) => ({
+  status,
+  blockNumber: 100,
+  gasUsed: 52000n,
+  logs: [{ address: RELAYER, ...relayerInterface.encodeEventLog('RelayExecuted', [TARGET, USER, SPONSOR, success, result]) }],
+});
+
+const createChain = (receipt: unknown) => createFakeProvider({}, {
+  getTransactionReceipt: async () => receipt,
+  getBlockNumber: async () => 101,
+});
+
+const fastPolling = { pollInterval: 1, timeout: 1000 };
+const submitted = { txHash: TX_HASH, message: 'Relay submitted' };
+
+describe('KalpRelaySDK.waitForRelay', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('resolves with the confirmed receipt and the RelayExecuted event', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createChain(minedReceipt(true, '0x')));
+    const confirmed: RelayReceipt[] = [];
+    sdk.on('confirmed', ({ receipt }) => confirmed.push(receipt));
+
+    const receipt = await sdk.waitForRelay(submitted, { ...fastPolling, confirmations: 2 });
+
+    assert.equal(receipt.txHash, TX_HASH);
+    assert.equal(receipt.blockNumber, 100);
+    assert.equal(receipt.gasUsed, '52000');
+    assert.equal(receipt.confirmations, 2);
+    assert.equal(receipt.innerCallSuccess, true);
+    assert.equal(receipt.relayEvent.user, USER);
+    assert.deepEqual(confirmed, [receipt]);
+  });
+
+  it('raises the decoded reason of a failed target call', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createChain(minedReceipt(false, errorString('Count too high'))));
+
+    await assert.rejects(sdk.waitForRelay(submitted, fastPolling), (error: any) => {
+      assert.equal(error.name, 'RelayInnerCallFailedError');
+      assert.equal(error.revertReason.reason, 'Count too high');
+      return true;
+    });
+  });
+
+  it('reports a failed target call on the receipt when asked not to throw', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createChain(minedReceipt(false, errorString('Count too high'))));
+
+    const receipt = await sdk.waitForRelay(submitted, { ...fastPolling, throwOnInnerCallFailure: false });
+
+    assert.equal(receipt.innerCallSuccess, false);
+    assert.equal(receipt.revertReason?.reason, 'Count too high');
+  });
+
+  it('raises RelaySubmissionError when the relay transaction reverted', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createChain(minedReceipt(true, '0x', 0)));
+
+    await assert.rejects(sdk.waitForRelay(submitted, fastPolling), /Relay transaction reverted/);
+  });
+
+  it('waits for the receipt from executeRelay', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createChain(minedReceipt(true, '0x')));
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    const result = await sdk.executeRelay(
+      { target: TARGET, data: '0xd09de08a', userAddress: USER },
+      undefined,
+      { waitForReceipt: fastPolling }
+    );
+
+    assert.equal((result as RelayReceipt).innerCallSuccess, true);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHAIN_ID, RELAYER, TARGET, USER, createFakeProvider, createTestSDK, relayAccepted, stubFetch } from './helpers';
+
+const relayerWithNonce = (nonce: bigint) => createFakeProvider({
+  [RELAYER]: { abi: ['function nonces(address user) view returns (uint256)'], methods: { nonces: () => nonce } },
+});
+
+const params = { target: TARGET, data: '0xd09de08a', userAddress: USER };
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('KalpRelaySDK RelayRequest v2', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs the relayer nonce and deadline and submits them', async () => {
+    const sdk = createTestSDK({ relayRequestVersion: 2 });
+    sdk.setProvider(CHAIN_ID, relayerWithNonce(7n));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const deadline = inOneHour();
+
+    const prepared = await sdk.prepareRelayRequest({ ...params, deadline });
+
+    assert.equal(prepared.relayRequestVersion, 2);
+    assert.equal(prepared.message.nonce, 7n);
+    assert.equal(prepared.message.deadline, BigInt(deadline));
+    assert.deepEqual(
+      prepared.types.RelayRequest.map(({ name }) => name).slice(-2),
+      ['nonce', 'deadline']
+    );
+
+    await sdk.submitSignedRelay(await sdk.signRelay(prepared));
+
+    assert.equal(calls[0].body.nonce, '7');
+    assert.equal(calls[0].body.deadline, String(deadline));
+  });
+
+  it('leaves nonce and deadline out of v1 requests', async () => {
+    const sdk = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    const prepared = await sdk.prepareRelayRequest(params);
+    await sdk.submitSignedRelay(await sdk.signRelay(prepared));
+
+    assert.equal(prepared.message.nonce, undefined);
+    assert.equal('nonce' in calls[0].body, false);
+    assert.equal('deadline' in calls[0].body, false);
+  });
+
+  it('rejects a deadline in the past', async () => {
+    const sdk = createTestSDK({ relayRequestVersion: 2 });
+    sdk.setProvider(CHAIN_ID, relayerWithNonce(0n));
+
+    await assert.rejects(
+      sdk.prepareRelayRequest({ ...params, deadline: Math.floor(Date.now() / 1000) - 1 }),
+      /deadline must be in the future/
+    );
+  });
+
+  it('does not submit an expired request', async () => {
+    const sdk = createTestSDK({ relayRequestVersion: 2 });
+    sdk.setProvider(CHAIN_ID, relayerWithNonce(0n));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await sdk.signRelay(await sdk.prepareRelayRequest({ ...params, deadline: inOneHour() }));
+
+    await assert.rejects(
+      sdk.submitSignedRelay({ ...signed, message: { ...signed.message, deadline: '1' } }),
+      /has expired/
+    );
+    assert.equal(calls.length, 0);
+  });
+
+  it('reports a relayer without nonces()', async () => {
+    const sdk = createTestSDK({ relayRequestVersion: 2 });
+    sdk.setProvider(CHAIN_ID, createFakeProvider());
+
+    await assert.rejects(sdk.prepareRelayRequest(params), /Failed to get relay nonce/);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CHAIN_ID,
+  RELAYER,
+  TARGET,
+  USER,
+  createDomainRelayer,
+  createFakeProvider,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import type { LogFields, Logger } from '../logger';
+
+const onChainDomain = { name: 'KalpRelayer', version: '1.1.0', chainId: CHAIN_ID, verifyingContract: RELAYER };
+
+/** Relayer whose eip712Domain() calls are counted */
+const createCountingRelayer = () => {
+  const relayer = createDomainRelayer(onChainDomain.name, onChainDomain.version);
+  const counter = { lookups: 0 };
+  const eip712Domain = relayer.methods.eip712Domain;
+  relayer.methods.eip712Domain = (...args) => (counter.lookups++, eip712Domain(...args));
+  return { provider: createFakeProvider({ [RELAYER]: relayer }), counter };
+};
+
+describe('KalpRelaySDK relayer domain discovery', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs with the domain the relayer reports and warns about a different config', async () => {
+    const warnings: Array<[string, LogFields | undefined]> = [];
+    const logger: Logger = { debug() {}, info() {}, warn: (message, fields) => warnings.push([message, fields]), error() {} };
+    const signer = createSigner();
+    const sdk = createTestSDK({ logger }, signer);
+    sdk.setProvider(CHAIN_ID, createCountingRelayer().provider);
+    ({ restore } = stubFetch(() => relayAccepted()));
+
+    await sdk.executeRelay({ target: TARGET, data: '0xd09de08a', userAddress: USER });
+
+    assert.deepEqual(signer.requests[0].domain, onChainDomain);
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0][0], /differs from the relayer contract/);
+    assert.deepEqual(warnings[0][1]?.configured, { name: 'KalpRelayer', version: '1.0.0' });
+  });
+
+  it('needs no configured domain when the relayer reports one', async () => {
+    const sdk = createTestSDK({ domainName: undefined, domainVersion: undefined });
+    sdk.setProvider(CHAIN_ID, createCountingRelayer().provider);
+
+    assert.deepEqual(await sdk.getRelayerDomain(), onChainDomain);
+  });
+
+  it('caches the domain per chain until the provider changes', async () => {
+    const sdk = createTestSDK();
+    const first = createCountingRelayer();
+    sdk.setProvider(CHAIN_ID, first.provider);
+
+    await Promise.all([sdk.getRelayerDomain(), sdk.getRelayerDomain()]);
+    await sdk.getRelayerDomain();
+    assert.equal(first.counter.lookups, 1);
+
+    const second = createCountingRelayer();
+    sdk.setProvider(CHAIN_ID, second.provider);
+    await sdk.getRelayerDomain();
+    assert.equal(second.counter.lookups, 1);
+
+    sdk.clearDomainCache();
+    await sdk.getRelayerDomain();
+    assert.equal(second.counter.lookups, 2);
+  });
+
+  it('uses the configured domain for relayers without eip712Domain()', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createFakeProvider());
+
+    assert.deepEqual(await sdk.getRelayerDomain(), { ...onChainDomain, version: '1.0.0' });
+  });
+
+  it('fails without either a discovered or a configured domain', async () => {
+    const withoutProvider = createTestSDK({ domainName: undefined, domainVersion: undefined });
+    const withoutEip5267 = createTestSDK({ domainName: undefined, domainVersion: undefined });
+    withoutEip5267.setProvider(CHAIN_ID, createFakeProvider());
+
+    await assert.rejects(withoutProvider.getRelayerDomain(), /no provider is configured/);
+    await assert.rejects(withoutEip5267.getRelayerDomain(), /does not implement eip712Domain\(\)/);
+  });
+
+  it('does not cache a failed lookup', async () => {
+    const sdk = createTestSDK({ domainName: undefined, domainVersion: undefined });
+    const { provider } = createCountingRelayer();
+    const call = provider.call;
+    let outages = 1;
+    provider.call = async (tx: { to: string; data: string }) => {
+      if (outages-- > 0) throw new Error('RPC unavailable');
+      return call(tx);
+    };
+    sdk.setProvider(CHAIN_ID, provider);
+
+    await assert.rejects(sdk.getRelayerDomain(), /does not implement eip712Domain\(\)/);
+    assert.deepEqual(await sdk.getRelayerDomain(), onChainDomain);
+  });
+});
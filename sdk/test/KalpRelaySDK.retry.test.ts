@@ -0,0 +1,47 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RELAY_API_URL, TARGET, USER, createTestSDK, jsonResponse, relayAccepted, stubFetch } from './helpers';
+import { RelayHttpError } from '../errors';
+
+describe('KalpRelaySDK retry config', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('keeps the defaults a partial retry config does not override', () => {
+    const sdk = createTestSDK({ retry: { jitter: 0.5 } });
+
+    assert.deepEqual(sdk.getConfig().retry, { maxAttempts: 3, initialDelay: 1, backoffMultiplier: 2, jitter: 0.5 });
+  });
+
+  it('merges a partial retry config passed to updateConfig', () => {
+    const sdk = createTestSDK();
+    sdk.updateConfig({ retry: { maxAttempts: 5 } });
+
+    assert.equal(sdk.getConfig().retry?.maxAttempts, 5);
+    assert.equal(sdk.getConfig().retry?.backoffMultiplier, 2);
+  });
+
+  it('retries and reports attempts with the default maxAttempts', async () => {
+    const sdk = createTestSDK({ retry: { jitter: 0 } });
+    const attempts: Array<[number, number]> = [];
+    sdk.on('submitAttempt', ({ attempt, maxAttempts }) => attempts.push([attempt, maxAttempts]));
+    ({ restore } = stubFetch((_, index) => (index < 2 ? jsonResponse({ error: 'busy' }, 503) : relayAccepted())));
+
+    const result = await sdk.executeRelay({ target: TARGET, data: '0xd09de08a', userAddress: USER });
+
+    assert.equal(result.txHash, relayAccepted().result.txHash);
+    assert.deepEqual(attempts, [[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('stops after maxAttempts', async () => {
+    const sdk = createTestSDK({ retry: { maxAttempts: 2 } });
+    const { calls, restore: restoreFetch } = stubFetch(() => jsonResponse({ error: 'busy' }, 503));
+    restore = restoreFetch;
+
+    await assert.rejects(
+      sdk.executeRelay({ target: TARGET, data: '0xd09de08a', userAddress: USER }),
+      (error) => error instanceof RelayHttpError && error.status === 503
+    );
+    assert.equal(calls.filter((call) => call.url === RELAY_API_URL).length, 2);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  RELAYER,
+  TARGET,
+  USER,
+  createDomainRelayer,
+  createFakeProvider,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import { computeDomainSeparator } from '../eip712';
+import type { RelayFailedEvent } from '../types';
+
+const params = { target: TARGET, data: '0xd09de08a', userAddress: USER };
+const other = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+const signedDomain = { name: 'KalpRelayer', version: '1.0.0', chainId: CHAIN_ID, verifyingContract: RELAYER } as const;
+
+describe('KalpRelaySDK relay signature verification', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('recovers the user and the signed domain separator', async () => {
+    const sdk = createTestSDK();
+    const signed = await sdk.signRelay(await sdk.prepareRelayRequest(params));
+
+    assert.deepEqual(await sdk.verifyRelaySignature(signed), {
+      signer: USER,
+      domainSeparator: computeDomainSeparator(signedDomain),
+    });
+  });
+
+  it('refuses to submit a request signed by someone else', async () => {
+    const sdk = createTestSDK({}, ({ domain, types, message }) =>
+      other.signTypedData(domain!, { RelayRequest: types.RelayRequest }, message)
+    );
+    const failed: RelayFailedEvent[] = [];
+    sdk.on('failed', (event) => failed.push(event));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await assert.rejects(sdk.executeRelay(params), (error: any) => {
+      assert.equal(error.name, 'RelaySignatureMismatchError');
+      assert.equal(error.expectedSigner, USER);
+      assert.equal(error.recoveredSigner, other.address);
+      return true;
+    });
+    assert.equal(calls.length, 0);
+    assert.deepEqual(failed.map(({ stage }) => stage), ['submit']);
+  });
+
+  it('refuses to submit a request changed after signing', async () => {
+    const sdk = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signed = await sdk.signRelay(await sdk.prepareRelayRequest(params));
+
+    await assert.rejects(
+      sdk.submitSignedRelay({ ...signed, message: { ...signed.message, data: '0x2baeceb7' } }),
+      { name: 'RelaySignatureMismatchError' }
+    );
+    await assert.rejects(
+      sdk.submitSignedRelay({ ...signed, signature: '0x1234' }),
+      /signature is malformed/
+    );
+    assert.equal(calls.length, 0);
+  });
+
+  it('checks the domain against the relayer when verifyRelayDomain is enabled', async () => {
+    // Signed on a device without a provider, with the configured domain
+    const device = createTestSDK();
+    const signed = await device.signRelay(await device.prepareRelayRequest(params));
+    const backend = createTestSDK({ verifyRelayDomain: true });
+    backend.setProvider(CHAIN_ID, createFakeProvider({ [RELAYER]: createDomainRelayer('KalpRelayer', '1.1.0') }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await assert.rejects(backend.submitSignedRelay(signed), (error: any) => {
+      assert.equal(error.name, 'RelayDomainMismatchError');
+      assert.match(error.message, /signed for name "KalpRelayer", version "1.0.0", but relayer .* verifies name "KalpRelayer", version "1.1.0"/);
+      return true;
+    });
+    assert.equal(calls.length, 0);
+
+    backend.setProvider(CHAIN_ID, createFakeProvider({ [RELAYER]: createDomainRelayer('KalpRelayer', '1.0.0') }));
+    await backend.submitSignedRelay(signed);
+    assert.equal(calls.length, 1);
+  });
+
+  it('falls back to DOMAIN_SEPARATOR() on relayers without eip712Domain()', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createFakeProvider({
+      [RELAYER]: {
+        abi: ['function DOMAIN_SEPARATOR() view returns (bytes32)'],
+        methods: { DOMAIN_SEPARATOR: () => computeDomainSeparator(signedDomain) },
+      },
+    }));
+    const signed = await sdk.signRelay(await sdk.prepareRelayRequest(params));
+
+    const verification = await sdk.verifyRelaySignature(signed, { checkDomain: true });
+
+    assert.equal(verification.onChainDomainSeparator, verification.domainSeparator);
+  });
+});
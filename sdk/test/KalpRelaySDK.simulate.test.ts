@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { CHAIN_ID, RELAYER, TARGET, USER, createFakeProvider, createTestSDK, errorString, revertWith } from './helpers';
+
+const COUNTER_ABI = ['function increment() returns (uint256)'];
+const increment = new ethers.Interface(COUNTER_ABI).encodeFunctionData('increment');
+const withUser = ethers.hexlify(ethers.concat([increment, USER]));
+
+const createCounter = () => createFakeProvider({ [TARGET]: { abi: COUNTER_ABI, methods: { increment: () => 7n } } });
+
+describe('KalpRelaySDK.simulateRelay', () => {
+  it('calls the target with data unchanged for relayers that forward it as signed', async () => {
+    const sdk = createTestSDK();
+    const provider = createCounter();
+    sdk.setProvider(CHAIN_ID, provider);
+
+    const simulation = await sdk.simulateRelay(
+      { target: TARGET, data: withUser, userAddress: USER },
+      undefined,
+      { targetAbi: COUNTER_ABI }
+    );
+
+    assert.deepEqual(provider.calls, [{ from: RELAYER, to: TARGET, data: withUser }]);
+    assert.deepEqual([...simulation.decoded!], [7n]);
+  });
+
+  it('appends the user when the relayer appends the sender', async () => {
+    const sdk = createTestSDK({ relayerAppendsSender: true });
+    const provider = createCounter();
+    sdk.setProvider(CHAIN_ID, provider);
+
+    await sdk.simulateRelay({ target: TARGET, data: increment, userAddress: USER });
+
+    assert.equal(provider.calls[0].data, withUser);
+  });
+
+  it('estimates the same calldata the relayer forwards', async () => {
+    const sdk = createTestSDK();
+    const provider = createCounter();
+    sdk.setProvider(CHAIN_ID, provider);
+
+    const estimate = await sdk.estimateRelayGas({ target: TARGET, data: withUser, userAddress: USER });
+
+    assert.equal(provider.calls[0].data, withUser);
+    assert.ok(estimate.gasLimit > estimate.gasEstimate);
+  });
+
+  it('decodes the revert reason of the target call', async () => {
+    const sdk = createTestSDK();
+    sdk.setProvider(CHAIN_ID, createFakeProvider({
+      [TARGET]: { abi: COUNTER_ABI, methods: { increment: () => { throw revertWith(errorString('Count too high')); } } },
+    }));
+
+    await assert.rejects(
+      sdk.simulateRelay({ target: TARGET, data: withUser, userAddress: USER }),
+      (error: any) => error.name === 'RelaySimulationError' && /Count too high/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHAIN_ID, RELAY_API_URL, SPONSOR, TARGET, USER, createSigner, createTestSDK, jsonResponse, relayAccepted, stubFetch } from './helpers';
+import type { SponsorResolutionContext } from '../types';
+
+const APP_SPONSOR = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const OTHER_TARGET = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const RESOLVER_URL = 'https://sponsors.test/resolve';
+
+describe('KalpRelaySDK sponsor resolution', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs and submits with the sponsor picked by the resolver', async () => {
+    const contexts: SponsorResolutionContext[] = [];
+    const signer = createSigner();
+    const sdk = createTestSDK({
+      appId: 'counter-app',
+      sponsorResolver: (context) => {
+        contexts.push(context);
+        return APP_SPONSOR;
+      },
+    }, signer);
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    await sdk.executeRelay({ target: TARGET, data: '0xd09de08a', userAddress: USER });
+
+    assert.deepEqual(contexts, [{ chainId: CHAIN_ID, target: TARGET, userAddress: USER, appId: 'counter-app' }]);
+    assert.equal(signer.requests[0].message.sponsor, APP_SPONSOR);
+    assert.equal(calls[0].url, RELAY_API_URL);
+    assert.equal(calls[0].body.sponsor, APP_SPONSOR);
+  });
+
+  it('caches resolutions per target and user until the cache is cleared', async () => {
+    let resolutions = 0;
+    const sdk = createTestSDK({ sponsorResolver: () => (resolutions++, APP_SPONSOR) });
+
+    await sdk.resolveSponsor({ target: TARGET, userAddress: USER });
+    await sdk.resolveSponsor({ target: TARGET, userAddress: USER });
+    assert.equal(resolutions, 1);
+
+    await sdk.resolveSponsor({ target: OTHER_TARGET, userAddress: USER });
+    assert.equal(resolutions, 2);
+
+    sdk.clearSponsorCache();
+    await sdk.resolveSponsor({ target: TARGET, userAddress: USER });
+    assert.equal(resolutions, 3);
+  });
+
+  it('falls back to the static sponsor without caching when no sponsor is returned', async () => {
+    let resolutions = 0;
+    const sdk = createTestSDK({ sponsorResolver: () => (resolutions++, null) });
+
+    assert.equal(await sdk.resolveSponsor({ target: TARGET, userAddress: USER }), SPONSOR);
+    assert.equal(await sdk.resolveSponsor({ target: TARGET, userAddress: USER }), SPONSOR);
+    assert.equal(resolutions, 2);
+  });
+
+  it('posts the context to an HTTP resolver with only its own headers', async () => {
+    const sdk = createTestSDK({
+      apiKey: 'kalp-secret',
+      sponsorResolver: { url: RESOLVER_URL, headers: { Authorization: 'Bearer sponsor-token' } },
+    });
+    const { calls, restore: restoreFetch } = stubFetch(() => ({ sponsorAddress: APP_SPONSOR }));
+    restore = restoreFetch;
+
+    const sponsor = await sdk.resolveSponsor({ target: TARGET, userAddress: USER });
+
+    assert.equal(sponsor, APP_SPONSOR);
+    assert.equal(calls[0].url, RESOLVER_URL);
+    assert.equal(calls[0].method, 'POST');
+    assert.deepEqual(calls[0].body, { chainId: CHAIN_ID, target: TARGET, userAddress: USER });
+    assert.deepEqual(calls[0].headers, { 'Content-Type': 'application/json', Authorization: 'Bearer sponsor-token' });
+  });
+
+  it('raises SponsorFetchError when the resolver fails or returns an invalid address', async () => {
+    const failing = createTestSDK({ sponsorResolver: { url: RESOLVER_URL } });
+    const invalid = createTestSDK({ sponsorResolver: () => '0x1234' });
+    ({ restore } = stubFetch(() => jsonResponse({ error: 'unavailable' }, 503)));
+
+    await assert.rejects(failing.resolveSponsor({ target: TARGET, userAddress: USER }), {
+      name: 'SponsorFetchError',
+      details: 'HTTP 503: ',
+    });
+    await assert.rejects(invalid.resolveSponsor({ target: TARGET, userAddress: USER }), {
+      name: 'SponsorFetchError',
+      details: 'Sponsor resolver returned an invalid address: 0x1234',
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RELAY_API_URL, TARGET, TX_HASH, USER, createTestSDK, relayAccepted, stubFetch } from './helpers';
+import type { RelayTaskStatus } from '../types';
+
+const STATUS_URL = `${RELAY_API_URL}/status/task-1`;
+const fastPolling = { pollInterval: 1, maxPollInterval: 1 };
+
+/** Relay API that walks task-1 through the given statuses, repeating the last one */
+const taskStatuses = (...statuses: object[]) => {
+  let polls = 0;
+  return () => statuses[Math.min(polls++, statuses.length - 1)];
+};
+
+describe('KalpRelaySDK relay task polling', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('polls a queued relay until it has a transaction hash', async () => {
+    const sdk = createTestSDK({ apiKey: 'kalp-key' });
+    const queued: string[] = [];
+    sdk.on('queued', ({ taskId }) => queued.push(taskId));
+    const nextStatus = taskStatuses({ status: 'queued' }, { status: 'sent', txHash: TX_HASH });
+    const { calls, restore: restoreFetch } = stubFetch(({ method }) =>
+      method === 'POST' ? { message: 'queued', taskId: 'task-1' } : nextStatus()
+    );
+    restore = restoreFetch;
+
+    const result = await sdk.executeRelay(
+      { target: TARGET, data: '0xd09de08a', userAddress: USER },
+      undefined,
+      { waitForTask: fastPolling }
+    );
+
+    assert.equal(result.txHash, TX_HASH);
+    assert.equal(result.taskId, 'task-1');
+    assert.deepEqual(queued, ['task-1']);
+    assert.deepEqual(calls.slice(1).map(({ method, url }) => [method, url]), [['GET', STATUS_URL], ['GET', STATUS_URL]]);
+    assert.equal(calls[1].headers.apiKey, 'kalp-key');
+  });
+
+  it('reports each new state and resolves once mined', async () => {
+    const sdk = createTestSDK();
+    ({ restore } = stubFetch(taskStatuses(
+      { status: 'pending' },
+      { status: 'pending' },
+      { result: { status: 'submitted', txHash: TX_HASH } },
+      { result: { status: 'mined', txHash: TX_HASH, blockNumber: '100', gasUsed: 52000 } }
+    )));
+    const states: RelayTaskStatus['state'][] = [];
+
+    const status = await sdk.waitForTask('task-1', { ...fastPolling, onStatus: ({ state }) => states.push(state) });
+
+    assert.deepEqual(states, ['pending', 'submitted', 'mined']);
+    assert.deepEqual(status, { state: 'mined', taskId: 'task-1', txHash: TX_HASH, blockNumber: 100, gasUsed: '52000' });
+  });
+
+  it('polls the configured status endpoint', async () => {
+    const sdk = createTestSDK({ relayStatusUrl: 'https://tasks.test/v1' });
+    const { calls, restore: restoreFetch } = stubFetch(() => ({ status: 'mined', txHash: TX_HASH }));
+    restore = restoreFetch;
+
+    await sdk.getRelayStatus('task/1');
+
+    assert.equal(calls[0].url, 'https://tasks.test/v1/task%2F1');
+  });
+
+  it('raises RelayTaskFailedError with the reason of a failed task', async () => {
+    const sdk = createTestSDK();
+    ({ restore } = stubFetch(taskStatuses({ status: 'pending' }, { status: 'reverted', error: 'out of gas' })));
+
+    await assert.rejects(sdk.waitForTask('task-1', fastPolling), (error: any) => {
+      assert.equal(error.name, 'RelayTaskFailedError');
+      assert.deepEqual(error.status, { state: 'failed', taskId: 'task-1', txHash: undefined, reason: 'out of gas' });
+      return true;
+    });
+  });
+
+  it('times out when the task never reaches the target state', async () => {
+    const sdk = createTestSDK();
+    ({ restore } = stubFetch(() => ({ status: 'submitted', txHash: TX_HASH })));
+
+    await assert.rejects(sdk.waitForTask('task-1', { ...fastPolling, timeout: 20 }), { name: 'RequestTimeoutError' });
+    assert.equal((await sdk.waitForTask('task-1', { until: 'submitted' })).state, 'submitted');
+  });
+
+  it('keeps answering submitted relays with a transaction hash directly', async () => {
+    const sdk = createTestSDK();
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+
+    const result = await sdk.executeRelay({ target: TARGET, data: '0xd09de08a', userAddress: USER });
+
+    assert.equal(result.taskId, undefined);
+    assert.equal(calls.length, 1);
+  });
+});
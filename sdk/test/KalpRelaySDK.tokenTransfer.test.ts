@@ -0,0 +1,239 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  CHAIN_ID,
+  TARGET,
+  TOKEN_DOMAIN,
+  USER,
+  createFacilitator,
+  createFakeProvider,
+  createPermitToken,
+  createSigner,
+  createTestSDK,
+  relayAccepted,
+  stubFetch,
+} from './helpers';
+import { PERMIT2_ADDRESS } from '../tokenTransfer';
+import type { RelaySignRequestedEvent } from '../types';
+
+const TOKEN = '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9';
+const RECIPIENT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const FACILITATOR = TARGET;
+const DAI_DOMAIN = { name: 'Dai Stablecoin', version: '1', chainId: CHAIN_ID, verifyingContract: TOKEN };
+
+const facilitatorInterface = new ethers.Interface([
+  'function facilitateTransferWithDaiPermit(address token, address holder, address to, uint256 value, uint256 nonce, uint256 expiry, (uint8 v, bytes32 r, bytes32 s) permitSignature, (uint8 v, bytes32 r, bytes32 s) revokeSignature)',
+  'function facilitateTransferWithAuthorization(address token, address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+]);
+
+const createToken = (balance: bigint, permit2Allowance = 0n) => createFakeProvider({
+  [TOKEN]: {
+    abi: [
+      'function decimals() view returns (uint8)',
+      'function balanceOf(address owner) view returns (uint256)',
+      'function allowance(address owner, address spender) view returns (uint256)',
+    ],
+    methods: {
+      decimals: () => 18n,
+      balanceOf: () => balance,
+      allowance: (_owner: string, spender: string) => (spender === PERMIT2_ADDRESS ? permit2Allowance : 0n),
+    },
+  },
+});
+
+const createDai = () => createFakeProvider({
+  [TOKEN]: {
+    abi: [
+      'function name() view returns (string)',
+      'function symbol() view returns (string)',
+      'function decimals() view returns (uint8)',
+      'function balanceOf(address owner) view returns (uint256)',
+      'function nonces(address owner) view returns (uint256)',
+    ],
+    methods: {
+      name: () => DAI_DOMAIN.name,
+      symbol: () => 'DAI',
+      decimals: () => 18n,
+      balanceOf: () => 1000n,
+      nonces: () => 4n,
+    },
+  },
+});
+
+const daiTransfer = {
+  tokenAddress: TOKEN,
+  recipient: RECIPIENT,
+  amount: 100n,
+  userAddress: USER,
+  facilitatorAddress: FACILITATOR,
+  permitMethod: 'dai' as const,
+  tokenDomain: DAI_DOMAIN,
+};
+
+describe('KalpRelaySDK.sendTokenTransfer with DAI permits', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  it('signs the permit and its revocation, then relays both to the facilitator', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({ relayerAppendsSender: true }, signer);
+    sdk.setProvider(CHAIN_ID, createDai());
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    const signKinds: string[] = [];
+    sdk.on('signRequested', (event: RelaySignRequestedEvent) => signKinds.push(event.kind));
+
+    await sdk.sendTokenTransfer(daiTransfer, undefined, { waitForReceipt: false });
+
+    assert.deepEqual(signKinds, ['permit', 'permitRevocation', 'relayRequest']);
+    assert.deepEqual(
+      signer.requests.slice(0, 2).map(({ message }) => [message.nonce, message.allowed]),
+      [[4n, true], [5n, false]]
+    );
+
+    const decoded = facilitatorInterface.decodeFunctionData('facilitateTransferWithDaiPermit', calls[0].body.data);
+    assert.equal(decoded.holder, USER);
+    assert.equal(decoded.to, RECIPIENT);
+    assert.equal(decoded.value, 100n);
+    assert.equal(decoded.nonce, 4n);
+  });
+
+  it('refuses DAI permits before any signature when the relayer does not append the sender', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createDai());
+
+    await assert.rejects(sdk.sendTokenTransfer(daiTransfer), /relayerAppendsSender/);
+    assert.equal(signer.requests.length, 0);
+  });
+});
+
+describe('KalpRelaySDK.sendTokenTransfer funds checks', () => {
+  const transfer = {
+    tokenAddress: TOKEN,
+    recipient: RECIPIENT,
+    amount: 100n,
+    userAddress: USER,
+    facilitatorAddress: FACILITATOR,
+  };
+
+  it('rejects a Permit2 transfer without enough allowance before any signature', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createToken(1000n, 40n));
+
+    await assert.rejects(sdk.sendTokenTransfer({ ...transfer, permitMethod: 'permit2' }), (error: any) => {
+      assert.equal(error.name, 'Permit2ApprovalRequiredError');
+      assert.equal(error.spender, PERMIT2_ADDRESS);
+      assert.equal(error.available, 40n);
+      return true;
+    });
+    assert.equal(signer.requests.length, 0);
+  });
+
+  it('rejects a transfer above the balance before any signature', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createToken(99n, 1000n));
+
+    await assert.rejects(sdk.sendTokenTransfer({ ...transfer, permitMethod: 'permit2' }), (error: any) => {
+      assert.equal(error.name, 'InsufficientBalanceError');
+      assert.equal(error.required, 100n);
+      assert.equal(error.available, 99n);
+      return true;
+    });
+    assert.equal(signer.requests.length, 0);
+  });
+
+  it('runs the allowance check of a custom flavor', async () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createToken(1000n));
+    sdk.registerPermitFlavor({
+      method: 'custom',
+      assertAllowance: async () => {
+        throw new Error('Approve the vault first');
+      },
+      buildTypedData: async () => assert.fail('built typed data without enough allowance'),
+      encodeCall: async () => '0x',
+    });
+
+    await assert.rejects(sdk.sendTokenTransfer({ ...transfer, permitMethod: 'custom' }), /Approve the vault first/);
+    assert.equal(signer.requests.length, 0);
+  });
+});
+
+describe('KalpRelaySDK.sendTokenTransfer with EIP-3009 authorizations', () => {
+  let restore = () => {};
+  afterEach(() => restore());
+
+  const transfer = {
+    tokenAddress: TOKEN,
+    recipient: RECIPIENT,
+    amount: 100n,
+    userAddress: USER,
+    facilitatorAddress: FACILITATOR,
+  };
+
+  const setup = () => {
+    const signer = createSigner();
+    const sdk = createTestSDK({}, signer);
+    sdk.setProvider(CHAIN_ID, createFakeProvider({ [TOKEN]: createPermitToken(), [FACILITATOR]: createFacilitator() }));
+    const { calls, restore: restoreFetch } = stubFetch(() => relayAccepted());
+    restore = restoreFetch;
+    return { sdk, signer, calls };
+  };
+
+  it('signs a TransferWithAuthorization for tokens set to eip3009 and relays it', async () => {
+    const { sdk, signer, calls } = setup();
+    sdk.setTokenPermitMethod(TOKEN, 'eip3009');
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    const [authorization] = signer.requests;
+    assert.equal(authorization.primaryType, 'TransferWithAuthorization');
+    assert.deepEqual(authorization.domain, TOKEN_DOMAIN);
+    assert.equal(authorization.message.from, USER);
+    assert.equal(authorization.message.to, RECIPIENT);
+    assert.equal(authorization.message.value, 100n);
+    assert.equal(authorization.message.validAfter, 0n);
+    assert.match(authorization.message.nonce as string, /^0x[0-9a-f]{64}$/);
+
+    const decoded = facilitatorInterface.decodeFunctionData('facilitateTransferWithAuthorization', calls[0].body.data);
+    assert.deepEqual(
+      [decoded.token, decoded.from, decoded.to, decoded.value, decoded.validBefore, decoded.nonce],
+      [TOKEN, USER, RECIPIENT, 100n, authorization.message.validBefore, authorization.message.nonce]
+    );
+    const signature = ethers.Signature.from({ v: decoded.v, r: decoded.r, s: decoded.s }).serialized;
+    assert.equal(
+      ethers.verifyTypedData(authorization.domain!, authorization.types, authorization.message, signature),
+      USER
+    );
+  });
+
+  it('uses a fresh nonce for every authorization', async () => {
+    const { sdk, signer } = setup();
+    sdk.setTokenPermitMethod(TOKEN, 'eip3009');
+
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+    await sdk.sendTokenTransfer(transfer, undefined, { waitForReceipt: false });
+
+    assert.notEqual(signer.requests[0].message.nonce, signer.requests[2].message.nonce);
+  });
+
+  it('lets an explicit permitMethod override the method set for the token', async () => {
+    const { sdk, signer } = setup();
+    sdk.setTokenPermitMethod(TOKEN, 'eip3009');
+
+    await sdk.sendTokenTransfer({ ...transfer, permitMethod: 'eip2612' }, undefined, { waitForReceipt: false });
+
+    assert.equal(signer.requests[0].primaryType, 'Permit');
+  });
+
+  it('rejects a token method without a registered flavor', () => {
+    const { sdk } = setup();
+
+    assert.throws(() => sdk.setTokenPermitMethod(TOKEN, 'unknown'), /No permit flavor registered for method "unknown"/);
+  });
+});
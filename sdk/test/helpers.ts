@@ -0,0 +1,229 @@
+/**
+ * Shared fixtures for SDK tests: a local signer, a stubbed relay API and a fake
+ * provider that answers `eth_call` from per-contract method handlers.
+ */
+
+import { ethers } from 'ethers';
+import { KalpRelaySDK } from '../KalpRelaySDK';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../multicall';
+import { computeDomainSeparator } from '../eip712';
+import type { KalpRelayConfig, SignTypedDataFunction } from '../types';
+
+export const CHAIN_ID = 31337;
+export const RELAYER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+export const SPONSOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+export const TARGET = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+export const RELAY_API_URL = 'https://relay.test/relay';
+export const TX_HASH = '0x' + 'ab'.repeat(32);
+export const TOKEN = '0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9';
+export const FACILITATOR = '0xDc64a140Aa3E981100a9becA4E685f962f0cF6C9';
+export const RECIPIENT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+/** Hardhat account #0 */
+export const wallet = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+export const USER = wallet.address;
+
+/** Signer backed by `wallet` that records every typed data request */
+export function createSigner(): SignTypedDataFunction & { requests: Array<Parameters<SignTypedDataFunction>[0]> } {
+  const requests: Array<Parameters<SignTypedDataFunction>[0]> = [];
+  const sign = async (args: Parameters<SignTypedDataFunction>[0]) => {
+    requests.push(args);
+    const { EIP712Domain, ...types } = args.types;
+    return wallet.signTypedData(args.domain ?? {}, types, args.message);
+  };
+  return Object.assign(sign, { requests });
+}
+
+/** SDK for the local test chain, with a fast retry policy */
+export function createTestSDK(
+  config: Partial<KalpRelayConfig> = {},
+  signTypedData: SignTypedDataFunction = createSigner()
+): KalpRelaySDK {
+  return new KalpRelaySDK(
+    {
+      chainId: CHAIN_ID,
+      relayerAddress: RELAYER,
+      domainName: 'KalpRelayer',
+      domainVersion: '1.0.0',
+      sponsorAddress: SPONSOR,
+      relayApiUrl: RELAY_API_URL,
+      ...config,
+      retry: { initialDelay: 1, ...config.retry },
+    },
+    signTypedData
+  );
+}
+
+/** A request seen by the stubbed fetch */
+export interface FetchCall {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: any;
+  signal?: AbortSignal;
+}
+
+/**
+ * Replace the global fetch for the duration of a test
+ *
+ * @param handler - Answers each request; return a plain object for a 200 JSON response
+ * @returns Recorded requests and a function restoring the original fetch
+ */
+export function stubFetch(
+  handler: (call: FetchCall, index: number) => unknown | Promise<unknown>
+): { calls: FetchCall[]; restore: () => void } {
+  const original = globalThis.fetch;
+  const calls: FetchCall[] = [];
+
+  globalThis.fetch = (async (input: string | URL, init: RequestInit = {}) => {
+    init.signal?.throwIfAborted();
+    const call: FetchCall = {
+      url: String(input),
+      method: init.method ?? 'GET',
+      headers: { ...(init.headers as Record<string, string>) },
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+      signal: init.signal ?? undefined,
+    };
+    calls.push(call);
+
+    const result = await handler(call, calls.length - 1);
+    return result instanceof Response ? result : jsonResponse(result);
+  }) as typeof fetch;
+
+  return { calls, restore: () => (globalThis.fetch = original) };
+}
+
+/** JSON response with a status code */
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+
+/** Relay API acknowledgement of a broadcast transaction */
+export const relayAccepted = (txHash = TX_HASH) => ({ message: 'success', result: { txHash } });
+
+/** Handlers of a fake contract, by function name; the last argument is the call transaction */
+export interface FakeContract {
+  abi: string[];
+  methods: Record<string, (...args: any[]) => unknown>;
+}
+
+/** Error shaped like an ethers CALL_EXCEPTION carrying revert data */
+export const revertWith = (data: string): Error =>
+  Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+
+/** Revert data of `Error(string)` */
+export const errorString = (reason: string): string =>
+  new ethers.Interface(['error Error(string)']).encodeErrorResult('Error', [reason]);
+
+/**
+ * Provider answering `eth_call` and `estimateGas` from fake contracts
+ *
+ * Multicall3 `aggregate3` is served from the other fake contracts unless a
+ * contract is registered at its address. Other provider methods can be
+ * overridden through `extra`.
+ */
+export function createFakeProvider(contracts: Record<string, FakeContract> = {}, extra: Record<string, unknown> = {}): any {
+  const byAddress = new Map(Object.entries(contracts).map(([address, contract]) => [address.toLowerCase(), contract]));
+  const calls: Array<{ from?: string; to: string; data: string }> = [];
+
+  const call = async (tx: { from?: string; to: string; data: string }): Promise<string> => {
+    calls.push(tx);
+    const to = tx.to.toLowerCase();
+    const contract = byAddress.get(to);
+
+    if (!contract && to === MULTICALL3_ADDRESS.toLowerCase()) {
+      const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+      const [batch] = multicallInterface.decodeFunctionData('aggregate3', tx.data);
+      const results = [];
+      for (const { target, callData } of batch) {
+        try {
+          results.push({ success: true, returnData: await call({ from: MULTICALL3_ADDRESS, to: target, data: callData }) });
+        } catch (error: any) {
+          results.push({ success: false, returnData: error.data ?? '0x' });
+        }
+      }
+      return multicallInterface.encodeFunctionResult('aggregate3', [results]);
+    }
+
+    const contractInterface = contract && new ethers.Interface(contract.abi);
+    const parsed = contractInterface?.parseTransaction({ data: tx.data });
+    const method = parsed && contract!.methods[parsed.name];
+    if (!method) {
+      throw revertWith('0x');
+    }
+
+    const result = await method(...parsed!.args, tx);
+    const outputs = parsed!.fragment.outputs.length;
+    return contractInterface!.encodeFunctionResult(
+      parsed!.fragment,
+      outputs === 0 ? [] : outputs === 1 ? [result] : (result as unknown[])
+    );
+  };
+
+  return {
+    calls,
+    call,
+    estimateGas: async (tx: { to: string; data: string }) => {
+      await call(tx);
+      return 100000n;
+    },
+    getFeeData: async () => ({ gasPrice: 1000000000n, maxFeePerGas: 2000000000n, maxPriorityFeePerGas: 1000000000n }),
+    getBlock: async () => ({ baseFeePerGas: 1000000000n }),
+    getBlockNumber: async () => 100,
+    getTransactionReceipt: async () => null,
+    ...extra,
+  };
+}
+
+/** EIP-712 domain of the token returned by `createPermitToken()` */
+export const TOKEN_DOMAIN = { name: 'Test Token', version: '1', chainId: CHAIN_ID, verifyingContract: TOKEN } as const;
+
+/** EIP-2612 token at `TOKEN`; each owner holds 1000 tokens and has permit nonce 0 */
+export const createPermitToken = (methods: FakeContract['methods'] = {}): FakeContract => ({
+  abi: [
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function version() view returns (string)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    'function balanceOf(address owner) view returns (uint256)',
+    'function nonces(address owner) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+  ],
+  methods: {
+    name: () => TOKEN_DOMAIN.name,
+    symbol: () => 'TT',
+    decimals: () => 18n,
+    version: () => TOKEN_DOMAIN.version,
+    DOMAIN_SEPARATOR: () => computeDomainSeparator(TOKEN_DOMAIN),
+    balanceOf: () => 1000n * 10n ** 18n,
+    nonces: () => 0n,
+    allowance: () => 0n,
+    ...methods,
+  },
+});
+
+/** ERC20Facilitator at `FACILITATOR`, reporting every permit as used or unused */
+export const createFacilitator = (permitUsed = false): FakeContract => ({
+  abi: [
+    'function calculatePermitHash(address token, address owner, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) view returns (bytes32)',
+    'function isPermitUsed(address token, bytes32 permitHash) view returns (bool)',
+  ],
+  methods: {
+    calculatePermitHash: (...args: unknown[]) =>
+      ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(
+        ['address', 'address', 'uint256', 'uint256', 'uint8', 'bytes32', 'bytes32'],
+        args.slice(0, 7)
+      )),
+    isPermitUsed: () => permitUsed,
+  },
+});
+
+/** Relayer at `RELAYER` reporting its EIP-712 domain through ERC-5267 `eip712Domain()` */
+export const createDomainRelayer = (name: string, version: string): FakeContract => ({
+  abi: [
+    'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+  ],
+  methods: {
+    eip712Domain: () => ['0x0f', name, version, CHAIN_ID, RELAYER, ethers.ZeroHash, []],
+  },
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeIdempotencyKey } from '../idempotency';
+
+const payload = {
+  target: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+  data: '0xd09de08a',
+  chainId: 31337n,
+  signature: '0x1234',
+};
+
+describe('computeIdempotencyKey', () => {
+  it('returns a 32-byte hash', () => {
+    assert.match(computeIdempotencyKey(payload), /^0x[0-9a-f]{64}$/);
+  });
+
+  it('does not depend on key order', () => {
+    const reordered = Object.fromEntries(Object.entries(payload).reverse());
+
+    assert.equal(computeIdempotencyKey(reordered), computeIdempotencyKey(payload));
+  });
+
+  it('changes when any field of the signed payload changes', () => {
+    const key = computeIdempotencyKey(payload);
+
+    assert.notEqual(computeIdempotencyKey({ ...payload, signature: '0x5678' }), key);
+    assert.notEqual(computeIdempotencyKey({ ...payload, chainId: 1n }), key);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRedactingLogger, redact } from '../logger';
+import type { LogFields, Logger } from '../logger';
+
+const SIGNATURE = '0x' + 'ab'.repeat(65);
+const API_KEY = 'kalp_live_secret';
+
+describe('redact', () => {
+  it('removes signatures and secrets from strings', () => {
+    assert.equal(
+      redact(`signed ${SIGNATURE} with ${API_KEY}`, [API_KEY]),
+      'signed [REDACTED] with [REDACTED]'
+    );
+  });
+
+  it('redacts sensitive keys at any depth', () => {
+    const fields = {
+      request: { signature: '0x1234', headers: { Authorization: 'Bearer token', 'x-api-key': 'key' } },
+      permit: { v: 27, r: '0x01', s: '0x02' },
+      target: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    };
+
+    assert.deepEqual(redact(fields), {
+      request: { signature: '[REDACTED]', headers: { Authorization: '[REDACTED]', 'x-api-key': 'key' } },
+      permit: { v: 27, r: '[REDACTED]', s: '[REDACTED]' },
+      target: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
+    });
+  });
+
+  it('copies instead of mutating and serializes bigints and errors', () => {
+    const fields = { signature: '0x1234', items: [1n], error: new Error(`bad key ${API_KEY}`) };
+
+    assert.deepEqual(redact(fields, [API_KEY]), {
+      signature: '[REDACTED]',
+      items: ['1'],
+      error: { name: 'Error', message: 'bad key [REDACTED]' },
+    });
+    assert.equal(fields.signature, '0x1234');
+  });
+});
+
+describe('createRedactingLogger', () => {
+  it('redacts messages and fields before logging', () => {
+    const entries: Array<[string, LogFields | undefined]> = [];
+    const record = (message: string, fields?: LogFields) => entries.push([message, fields]);
+    const inner: Logger = { debug: record, info: record, warn: record, error: record };
+
+    const logger = createRedactingLogger(inner, [API_KEY]);
+    logger.info(`using ${API_KEY}`, { signature: SIGNATURE });
+    logger.error('failed');
+
+    assert.deepEqual(entries, [
+      ['using [REDACTED]', { signature: '[REDACTED]' }],
+      ['failed', undefined],
+    ]);
+  });
+});
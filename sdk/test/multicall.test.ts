@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { multicall, MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../multicall';
+import { createFakeProvider } from './helpers';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TOKEN_ABI = ['function decimals() view returns (uint8)', 'function symbol() view returns (string)'];
+const tokenInterface = new ethers.Interface(TOKEN_ABI);
+
+const token = { abi: TOKEN_ABI, methods: { decimals: () => 6n } };
+const calls = [
+  { target: TOKEN, callData: tokenInterface.encodeFunctionData('decimals') },
+  { target: TOKEN, callData: tokenInterface.encodeFunctionData('symbol') },
+];
+
+describe('multicall', () => {
+  it('batches the calls into one aggregate3 call', async () => {
+    const provider = createFakeProvider({ [TOKEN]: token });
+
+    const [decimals, symbol] = await multicall(calls, provider);
+
+    assert.deepEqual(
+      provider.calls.filter(({ to }: { to: string }) => to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()).length,
+      1
+    );
+    assert.equal(decimals.success, true);
+    assert.equal(tokenInterface.decodeFunctionResult('decimals', decimals.returnData)[0], 6n);
+    assert.equal(symbol.success, false);
+  });
+
+  it('makes each call separately when Multicall3 is not available', async () => {
+    const provider = createFakeProvider({
+      [TOKEN]: token,
+      [MULTICALL3_ADDRESS]: { abi: MULTICALL3_ABI, methods: {} },
+    });
+
+    const results = await multicall(calls, provider);
+
+    assert.deepEqual(
+      provider.calls.slice(1).map(({ to, data }: { to: string; data: string }) => [to, data]),
+      calls.map(({ target, callData }) => [target, callData])
+    );
+    assert.deepEqual(results.map(({ success }) => success), [true, false]);
+    assert.equal(results[1].returnData, '0x');
+  });
+
+  it('uses the given Multicall3 address', async () => {
+    const provider = createFakeProvider({ [TOKEN]: token });
+
+    await multicall(calls, provider, TOKEN);
+
+    assert.equal(provider.calls[0].to.toLowerCase(), TOKEN.toLowerCase());
+  });
+
+  it('makes no call for an empty batch', async () => {
+    const provider = createFakeProvider();
+
+    assert.deepEqual(await multicall([], provider), []);
+    assert.equal(provider.calls.length, 0);
+  });
+});
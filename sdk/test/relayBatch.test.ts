@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { BATCH_FORWARDER_ABI, decodeRelayBatchResults, encodeRelayBatch } from '../relayBatch';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS } from '../multicall';
+import type { RelayBatchCall } from '../types';
+
+const FORWARDER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const COUNTER = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TOKEN = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const COUNTER_ABI = ['function increment() returns (uint256)', 'error CountTooHigh(uint256 count)'];
+const counterInterface = new ethers.Interface(COUNTER_ABI);
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+const calls: RelayBatchCall[] = [
+  { target: COUNTER, data: counterInterface.encodeFunctionData('increment'), abi: COUNTER_ABI },
+  { target: TOKEN, data: '0xa9059cbb' },
+];
+
+const encodeResults = (results: Array<[boolean, string]>): string =>
+  abiCoder.encode(['tuple(bool success, bytes returnData)[]'], [results]);
+
+describe('encodeRelayBatch', () => {
+  it('wraps the calls in executeBatch on the forwarder', () => {
+    const batch = encodeRelayBatch(calls, { mode: 'atomic', forwarderAddress: FORWARDER });
+    const [encodedCalls, atomic] = new ethers.Interface(BATCH_FORWARDER_ABI).decodeFunctionData(
+      'executeBatch',
+      batch.data
+    );
+
+    assert.equal(batch.target, FORWARDER);
+    assert.equal(atomic, true);
+    assert.deepEqual(
+      encodedCalls.map((call: any) => [call.target, call.data]),
+      calls.map((call) => [call.target, call.data])
+    );
+  });
+
+  it('uses aggregate3 on Multicall3 for sender-independent calls', () => {
+    const batch = encodeRelayBatch(calls, { mode: 'bestEffort', senderIndependent: true });
+    const [encodedCalls] = new ethers.Interface(MULTICALL3_ABI).decodeFunctionData('aggregate3', batch.data);
+
+    assert.equal(batch.target, MULTICALL3_ADDRESS);
+    assert.deepEqual(
+      encodedCalls.map((call: any) => [call.target, call.allowFailure, call.callData]),
+      calls.map((call) => [call.target, true, call.data])
+    );
+  });
+
+  it('requires a forwarder unless the calls are sender-independent', () => {
+    assert.throws(() => encodeRelayBatch(calls, { mode: 'atomic' }), /need a forwarderAddress/);
+  });
+
+  it('rejects an empty batch and invalid calls', () => {
+    const options = { mode: 'atomic' as const, forwarderAddress: FORWARDER };
+
+    assert.throws(() => encodeRelayBatch([], options), /at least one call/);
+    assert.throws(() => encodeRelayBatch([{ target: '0x1234', data: '0x' }], options), /target address at index 0/);
+    assert.throws(() => encodeRelayBatch([calls[0], { target: TOKEN, data: '0xabc' }], options), /call data at index 1/);
+    assert.throws(() => encodeRelayBatch(calls, { mode: 'atomic', forwarderAddress: '0x1234' }), /forwarder address/);
+  });
+});
+
+describe('decodeRelayBatchResults', () => {
+  it('decodes return values and revert reasons per call', () => {
+    const revertData = counterInterface.encodeErrorResult('CountTooHigh', [11]);
+    const returnData = encodeResults([
+      [true, abiCoder.encode(['uint256'], [7])],
+      [false, revertData],
+    ]);
+
+    const [incremented, transferred] = decodeRelayBatchResults(calls, returnData);
+
+    assert.equal(incremented.success, true);
+    assert.equal(incremented.returnValue, 7n);
+    assert.equal(transferred.success, false);
+    assert.equal(transferred.returnData, revertData);
+    assert.equal(transferred.revertReason?.kind, 'unknown');
+  });
+
+  it('decodes custom errors with the call ABI', () => {
+    const revertData = counterInterface.encodeErrorResult('CountTooHigh', [11]);
+    const [result] = decodeRelayBatchResults([calls[0]], encodeResults([[false, revertData]]));
+
+    assert.equal(result.revertReason?.errorName, 'CountTooHigh');
+  });
+
+  it('leaves the return value undefined without an ABI', () => {
+    const [, result] = decodeRelayBatchResults(calls, encodeResults([[true, '0x'], [true, '0x01']]));
+
+    assert.equal(result.returnValue, undefined);
+  });
+
+  it('rejects return data that does not match the calls', () => {
+    assert.throws(() => decodeRelayBatchResults(calls, encodeResults([[true, '0x']])), /1 results for 2 calls/);
+    assert.throws(() => decodeRelayBatchResults(calls, '0x1234'), /Failed to decode batch results/);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  decodeRevertReason,
+  extractRevertData,
+  parseRelayExecutedEvent,
+  waitForTransactionReceipt,
+} from '../relayReceipt';
+import { RequestTimeoutError } from '../errors';
+
+const RELAYER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TARGET = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const USER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const SPONSOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const relayerInterface = new ethers.Interface([
+  'event RelayExecuted(address indexed target, address indexed user, address indexed sponsor, bool success, bytes result)',
+]);
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+const relayExecutedLog = (address: string, success: boolean, result: string) => ({
+  address,
+  ...relayerInterface.encodeEventLog('RelayExecuted', [TARGET, USER, SPONSOR, success, result]),
+});
+
+describe('parseRelayExecutedEvent', () => {
+  it('decodes the event emitted by the relayer', () => {
+    const event = parseRelayExecutedEvent([relayExecutedLog(RELAYER.toLowerCase(), false, '0x1234')], RELAYER);
+
+    assert.deepEqual(event, { target: TARGET, user: USER, sponsor: SPONSOR, success: false, result: '0x1234' });
+  });
+
+  it('ignores logs from other contracts and unrelated events', () => {
+    const logs = [
+      relayExecutedLog(TARGET, true, '0x'),
+      { address: RELAYER, topics: [ethers.id('Other()')], data: '0x' },
+    ];
+
+    assert.equal(parseRelayExecutedEvent(logs, RELAYER), null);
+  });
+});
+
+describe('decodeRevertReason', () => {
+  it('decodes Error(string)', () => {
+    const data = '0x08c379a0' + abiCoder.encode(['string'], ['Count too high']).slice(2);
+
+    assert.deepEqual(decodeRevertReason(data), { kind: 'error', reason: 'Count too high', data });
+  });
+
+  it('decodes Panic(uint256) with a description', () => {
+    const data = '0x4e487b71' + abiCoder.encode(['uint256'], [0x11]).slice(2);
+    const decoded = decodeRevertReason(data);
+
+    assert.equal(decoded.kind, 'panic');
+    assert.equal(decoded.reason, 'panic 0x11 (arithmetic overflow or underflow)');
+    assert.equal(decoded.panicCode, 0x11n);
+  });
+
+  it('decodes custom errors with the target ABI', () => {
+    const abi = ['error Unauthorized(address caller, uint256 role)'];
+    const data = new ethers.Interface(abi).encodeErrorResult('Unauthorized', [USER, 2]);
+    const decoded = decodeRevertReason(data, abi);
+
+    assert.equal(decoded.kind, 'custom');
+    assert.equal(decoded.errorName, 'Unauthorized');
+    assert.equal(decoded.reason, `Unauthorized(${USER}, 2)`);
+  });
+
+  it('reports custom errors as unknown without an ABI', () => {
+    const data = new ethers.Interface(['error Paused()']).encodeErrorResult('Paused', []);
+
+    assert.equal(decodeRevertReason(data).kind, 'unknown');
+  });
+
+  it('reports empty and malformed revert data without throwing', () => {
+    assert.equal(decodeRevertReason('0x').kind, 'empty');
+    assert.equal(decodeRevertReason('').data, '0x');
+    assert.equal(decodeRevertReason('0x08c379a0ff').kind, 'unknown');
+  });
+});
+
+describe('extractRevertData', () => {
+  it('finds revert data where ethers and JSON-RPC providers put it', () => {
+    assert.equal(extractRevertData({ data: '0xabcd' }), '0xabcd');
+    assert.equal(extractRevertData({ info: { error: { data: '0xabcd' } } }), '0xabcd');
+    assert.equal(extractRevertData({ error: { data: { data: '0xabcd' } } }), '0xabcd');
+  });
+
+  it('distinguishes reverts without data from other failures', () => {
+    assert.equal(extractRevertData({ code: 'CALL_EXCEPTION' }), '0x');
+    assert.equal(extractRevertData(new Error('network down')), null);
+  });
+});
+
+describe('waitForTransactionReceipt', () => {
+  it('polls until the receipt has enough confirmations', async () => {
+    // Not mined on the first poll, then one more block per poll
+    let polls = 0;
+    let block = 99;
+    const provider: any = {
+      getTransactionReceipt: async () => (++polls >= 2 ? { blockNumber: 100 } : null),
+      getBlockNumber: async () => ++block,
+    };
+
+    const { receipt, confirmations } = await waitForTransactionReceipt(provider, '0xabc', {
+      confirmations: 3,
+      timeout: 1000,
+      pollInterval: 1,
+    });
+
+    assert.equal(receipt.blockNumber, 100);
+    assert.equal(confirmations, 3);
+    assert.equal(polls, 4);
+  });
+
+  it('times out when the transaction is not mined', async () => {
+    const provider: any = {
+      getTransactionReceipt: async () => null,
+      getBlockNumber: async () => 0,
+    };
+
+    await assert.rejects(
+      waitForTransactionReceipt(provider, '0xabc', { confirmations: 1, timeout: 5, pollInterval: 1 }),
+      RequestTimeoutError
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  createSignedRelay,
+  getSignedRelayMessage,
+  parseSignedRelay,
+  recoverRelaySigner,
+  RELAY_TYPES,
+  serializeSignedRelay,
+} from '../signedRelay';
+import type { PreparedRelayRequest, RelayRequestVersion } from '../types';
+
+const wallet = new ethers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const RELAYER = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TARGET = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const SPONSOR = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const prepare = (relayRequestVersion: RelayRequestVersion = 1): PreparedRelayRequest => ({
+  requestId: 'req-1',
+  chainId: 31337,
+  relayRequestVersion,
+  domain: { name: 'KalpRelayer', version: '1', chainId: 31337, verifyingContract: RELAYER },
+  types: RELAY_TYPES[relayRequestVersion],
+  primaryType: 'RelayRequest',
+  message: {
+    target: TARGET,
+    data: '0xd09de08a',
+    user: wallet.address,
+    sponsor: SPONSOR,
+    chainId: 31337n,
+    ...(relayRequestVersion === 2 && { nonce: 4n, deadline: 1700000000n }),
+  },
+});
+
+const sign = async (prepared: PreparedRelayRequest): Promise<string> =>
+  wallet.signTypedData(prepared.domain, prepared.types, prepared.message);
+
+describe('createSignedRelay', () => {
+  it('encodes integers as decimal strings', () => {
+    const envelope = createSignedRelay(prepare(2), '0x1234');
+
+    assert.equal(envelope.message.chainId, '31337');
+    assert.equal(envelope.message.nonce, '4');
+    assert.equal(envelope.message.deadline, '1700000000');
+    assert.equal(envelope.requestId, 'req-1');
+  });
+
+  it('omits nonce and deadline for v1 requests', () => {
+    const envelope = createSignedRelay(prepare(1), '0x1234');
+
+    assert.equal('nonce' in envelope.message, false);
+    assert.equal('deadline' in envelope.message, false);
+  });
+});
+
+describe('serializeSignedRelay', () => {
+  it('produces the same JSON regardless of key order', () => {
+    const envelope = createSignedRelay(prepare(), '0x1234');
+    const reordered = Object.fromEntries(Object.entries(envelope).reverse()) as typeof envelope;
+
+    assert.equal(serializeSignedRelay(reordered), serializeSignedRelay(envelope));
+  });
+
+  it('round-trips through parseSignedRelay', () => {
+    const envelope = createSignedRelay(prepare(2), '0x1234');
+
+    assert.deepEqual(parseSignedRelay(serializeSignedRelay(envelope)), envelope);
+  });
+});
+
+describe('parseSignedRelay', () => {
+  const valid = () => JSON.parse(serializeSignedRelay(createSignedRelay(prepare(2), '0x1234')));
+
+  it('rejects input that is not JSON', () => {
+    assert.throws(() => parseSignedRelay('{'), /not valid JSON/);
+  });
+
+  it('rejects an unknown format', () => {
+    assert.throws(() => parseSignedRelay({ ...valid(), format: 2 }), /unsupported format/);
+  });
+
+  it('rejects a domain for another chain', () => {
+    const envelope = valid();
+    envelope.domain.chainId = 1;
+
+    assert.throws(() => parseSignedRelay(envelope), /malformed EIP-712 domain/);
+  });
+
+  it('rejects a message chain ID that does not match', () => {
+    const envelope = valid();
+    envelope.message.chainId = '1';
+
+    assert.throws(() => parseSignedRelay(envelope), /message.chainId does not match/);
+  });
+
+  it('rejects invalid addresses and calldata', () => {
+    assert.throws(() => parseSignedRelay({ ...valid(), message: { ...valid().message, user: '0x1234' } }), /message.user/);
+    assert.throws(() => parseSignedRelay({ ...valid(), message: { ...valid().message, data: '0xabc' } }), /message.data/);
+  });
+
+  it('requires nonce and deadline for v2 requests', () => {
+    const envelope = valid();
+    delete envelope.message.nonce;
+
+    assert.throws(() => parseSignedRelay(envelope), /message.nonce/);
+  });
+});
+
+describe('recoverRelaySigner', () => {
+  it('recovers the user that signed the request', async () => {
+    for (const version of [1, 2] as const) {
+      const prepared = prepare(version);
+      const envelope = createSignedRelay(prepared, await sign(prepared));
+
+      assert.equal(recoverRelaySigner(envelope), wallet.address);
+    }
+  });
+
+  it('recovers another address when the message was changed after signing', async () => {
+    const prepared = prepare();
+    const envelope = createSignedRelay(prepared, await sign(prepared));
+    envelope.message.data = '0xdeadbeef';
+
+    assert.notEqual(recoverRelaySigner(envelope), wallet.address);
+  });
+
+  it('returns null for a malformed signature', () => {
+    assert.equal(recoverRelaySigner(createSignedRelay(prepare(), '0x1234')), null);
+  });
+});
+
+describe('getSignedRelayMessage', () => {
+  it('converts integers back to bigints', () => {
+    const message = getSignedRelayMessage(createSignedRelay(prepare(2), '0x1234'));
+
+    assert.equal(message.chainId, 31337n);
+    assert.equal(message.nonce, 4n);
+    assert.equal(message.deadline, 1700000000n);
+  });
+});
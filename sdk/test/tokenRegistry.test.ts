@@ -0,0 +1,165 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { TokenRegistry } from '../tokenRegistry';
+import { MULTICALL3_ADDRESS } from '../multicall';
+import { computeDomainSeparator } from '../eip712';
+import { createFakeProvider } from './helpers';
+import type { TokenList } from '../types';
+
+const CHAIN_ID = 137;
+const USDC = '0x5FbDB2315678afecb367f032d93F642f64180aa3' as const;
+const DAI = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const NO_PERMIT = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+const usdcDomain = { name: 'USD Coin', version: '2', chainId: CHAIN_ID, verifyingContract: USDC } as const;
+
+const createTokens = () => createFakeProvider({
+  [USDC]: {
+    abi: [
+      'function name() view returns (string)',
+      'function symbol() view returns (string)',
+      'function decimals() view returns (uint8)',
+      'function version() view returns (string)',
+      'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    ],
+    methods: {
+      name: () => usdcDomain.name,
+      symbol: () => 'USDC',
+      decimals: () => 6n,
+      version: () => usdcDomain.version,
+      DOMAIN_SEPARATOR: () => computeDomainSeparator(usdcDomain),
+    },
+  },
+  [NO_PERMIT]: {
+    abi: ['function symbol() view returns (string)', 'function decimals() view returns (uint8)'],
+    methods: { symbol: () => 'OLD', decimals: () => 18n },
+  },
+});
+
+const multicallCount = (provider: any) =>
+  provider.calls.filter(({ to }: { to: string }) => to.toLowerCase() === MULTICALL3_ADDRESS.toLowerCase()).length;
+
+const tokenList: TokenList = {
+  name: 'Test list',
+  tokens: [
+    { chainId: CHAIN_ID, address: USDC.toLowerCase(), name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { chainId: CHAIN_ID, address: DAI, name: 'Dai', symbol: 'DAI', decimals: 18, extensions: { permitMethod: 'dai' } },
+    { chainId: 1, address: USDC, name: 'USD Coin', symbol: 'USDC', decimals: 6 },
+    { chainId: CHAIN_ID, address: '0x1234', name: 'Broken', symbol: 'BRK', decimals: 18 },
+  ],
+};
+
+describe('TokenRegistry.loadTokenList', () => {
+  it('loads the valid tokens of a chain', () => {
+    const registry = new TokenRegistry();
+
+    assert.equal(registry.loadTokenList(tokenList, CHAIN_ID), 2);
+
+    assert.deepEqual(registry.get(CHAIN_ID, USDC), {
+      chainId: CHAIN_ID,
+      address: USDC,
+      name: 'USD Coin',
+      symbol: 'USDC',
+      decimals: 6,
+    });
+    assert.equal(registry.get(CHAIN_ID, DAI)?.permitMethod, 'dai');
+    assert.equal(registry.get(1, USDC), null);
+  });
+
+  it('loads every chain without a chain filter', () => {
+    const registry = new TokenRegistry();
+
+    assert.equal(registry.loadTokenList(tokenList), 3);
+    assert.equal(registry.get(1, USDC)?.symbol, 'USDC');
+  });
+
+  it('rejects a list without tokens', () => {
+    assert.throws(() => new TokenRegistry().loadTokenList({ name: 'Empty' } as TokenList), /missing tokens/);
+  });
+});
+
+describe('TokenRegistry.lookup', () => {
+  it('looks up uncached tokens in one Multicall3 call', async () => {
+    const registry = new TokenRegistry();
+    const provider = createTokens();
+
+    const [usdc, old] = await registry.lookup(CHAIN_ID, [USDC, NO_PERMIT], provider);
+
+    assert.equal(multicallCount(provider), 1);
+    assert.equal(usdc.decimals, 6);
+    assert.deepEqual(usdc.permitDomain, usdcDomain);
+    assert.equal(old.symbol, 'OLD');
+  });
+
+  it('serves cached tokens without an RPC call, including tokens without a permit domain', async () => {
+    const registry = new TokenRegistry();
+    const provider = createTokens();
+    await registry.lookup(CHAIN_ID, [USDC, NO_PERMIT], provider);
+    provider.calls.length = 0;
+
+    const [usdc, old] = await registry.lookup(CHAIN_ID, [USDC, NO_PERMIT], provider);
+
+    assert.equal(provider.calls.length, 0);
+    assert.equal(usdc.symbol, 'USDC');
+    assert.equal(old.permitDomain, null);
+  });
+
+  it('shares one batch between concurrent lookups', async () => {
+    const registry = new TokenRegistry();
+    const provider = createTokens();
+
+    const [[first], [second]] = await Promise.all([
+      registry.lookup(CHAIN_ID, [USDC], provider),
+      registry.lookup(CHAIN_ID, [USDC], provider),
+    ]);
+
+    assert.equal(multicallCount(provider), 1);
+    assert.deepEqual(first, second);
+  });
+
+  it('looks up tokens seeded from a token list on first use and keeps their permit method', async () => {
+    const registry = new TokenRegistry();
+    registry.loadTokenList(tokenList, CHAIN_ID);
+    registry.setPermitMethod(CHAIN_ID, USDC, 'eip3009');
+    const provider = createTokens();
+
+    const [usdc] = await registry.lookup(CHAIN_ID, [USDC], provider);
+
+    assert.equal(multicallCount(provider), 1);
+    assert.deepEqual(usdc.permitDomain, usdcDomain);
+    assert.equal(usdc.permitMethod, 'eip3009');
+  });
+
+  it('looks tokens up again after clear()', async () => {
+    const registry = new TokenRegistry();
+    const provider = createTokens();
+    await registry.lookup(CHAIN_ID, [USDC], provider);
+
+    registry.clear();
+    await registry.lookup(CHAIN_ID, [USDC], provider);
+
+    assert.equal(multicallCount(provider), 2);
+  });
+
+  it('rejects invalid addresses', async () => {
+    await assert.rejects(new TokenRegistry().lookup(CHAIN_ID, ['0x1234'], createTokens()), /Invalid token address 0x1234/);
+  });
+});
+
+describe('TokenRegistry.set', () => {
+  it('keeps cached fields that are not given', () => {
+    const registry = new TokenRegistry();
+    registry.set({ chainId: CHAIN_ID, address: USDC, symbol: 'USDC', decimals: 6 });
+
+    registry.set({ chainId: CHAIN_ID, address: ethers.getAddress(USDC).toLowerCase(), name: 'USD Coin' });
+
+    assert.deepEqual(registry.get(CHAIN_ID, USDC), {
+      chainId: CHAIN_ID,
+      address: USDC,
+      symbol: 'USDC',
+      decimals: 6,
+      name: 'USD Coin',
+    });
+  });
+});
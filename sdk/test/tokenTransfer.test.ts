@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { matchTokenDomain } from '../tokenTransfer';
+import { computeDomainSeparator } from '../eip712';
+import { PermitDomainMismatchError } from '../errors';
+import type { OnChainEip712Domain } from '../types';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CHAIN_ID = 137;
+
+const separator = (domain: OnChainEip712Domain) => computeDomainSeparator(domain);
+
+describe('matchTokenDomain', () => {
+  it('uses the ERC-5267 domain when it matches DOMAIN_SEPARATOR()', () => {
+    const onChainDomain: OnChainEip712Domain = { name: 'USD Coin', version: '2', chainId: CHAIN_ID, verifyingContract: TOKEN };
+
+    const domain = matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain, domainSeparator: separator(onChainDomain) });
+
+    assert.deepEqual(domain, onChainDomain);
+  });
+
+  it('builds the domain from name() and version()', () => {
+    const domain = { name: 'Token', version: '2', chainId: CHAIN_ID, verifyingContract: TOKEN } as const;
+
+    assert.deepEqual(
+      matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: separator(domain), name: 'Token', version: '2' }),
+      domain
+    );
+  });
+
+  it('finds domains without a version field', () => {
+    const domain = { name: 'Token', chainId: CHAIN_ID, verifyingContract: TOKEN } as const;
+
+    assert.deepEqual(
+      matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: separator(domain), name: 'Token' }),
+      domain
+    );
+  });
+
+  it('finds bridged token domains that put the chain ID in a salt', () => {
+    const domain = {
+      name: 'Token',
+      version: '1',
+      verifyingContract: TOKEN,
+      salt: ethers.zeroPadValue(ethers.toBeHex(CHAIN_ID), 32) as `0x${string}`,
+    } as const;
+
+    assert.deepEqual(
+      matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: separator(domain), name: 'Token' }),
+      domain
+    );
+  });
+
+  it('falls back to version 1 without DOMAIN_SEPARATOR()', () => {
+    assert.deepEqual(matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: null, name: 'Token' }), {
+      name: 'Token',
+      version: '1',
+      chainId: CHAIN_ID,
+      verifyingContract: TOKEN,
+    });
+  });
+
+  it('throws when no candidate matches DOMAIN_SEPARATOR()', () => {
+    assert.throws(
+      () => matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: ethers.ZeroHash, name: 'Token' }),
+      PermitDomainMismatchError
+    );
+  });
+
+  it('requires name() when the token does not describe its domain', () => {
+    assert.throws(
+      () => matchTokenDomain(TOKEN, CHAIN_ID, { onChainDomain: null, domainSeparator: null }),
+      /name\(\) is unavailable/
+    );
+  });
+});
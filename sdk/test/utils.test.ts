@@ -0,0 +1,102 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRetryAfter, retryWithBackoff, shouldRetryError } from '../utils';
+import { RelayAbortedError, RelayHttpError } from '../errors';
+
+const httpError = (status: number, retryAfter?: number) => new RelayHttpError(status, 'Error', {}, '', retryAfter);
+
+/** Function failing with the given errors in turn, then resolving */
+const failing = (...errors: unknown[]) => {
+  let calls = 0;
+  const fn = async () => {
+    calls++;
+    if (errors.length > 0) throw errors.shift();
+    return 'ok';
+  };
+  return { fn, calls: () => calls };
+};
+
+describe('retryWithBackoff', () => {
+  it('retries until the call succeeds, growing the delay', async () => {
+    const { fn, calls } = failing(new Error('a'), new Error('b'));
+    const delays: number[] = [];
+
+    const result = await retryWithBackoff(fn, {
+      initialDelay: 1,
+      backoffMultiplier: 3,
+      onRetry: (_, delay) => delays.push(delay),
+    });
+
+    assert.equal(result, 'ok');
+    assert.equal(calls(), 3);
+    assert.deepEqual(delays, [1, 3]);
+  });
+
+  it('throws the last error once attempts are exhausted', async () => {
+    const { fn, calls } = failing(new Error('a'), new Error('b'));
+
+    await assert.rejects(retryWithBackoff(fn, { maxAttempts: 2, initialDelay: 1 }), /b/);
+    assert.equal(calls(), 2);
+  });
+
+  it('does not retry errors rejected by shouldRetry or aborted operations', async () => {
+    const permanent = failing(httpError(400));
+    await assert.rejects(retryWithBackoff(permanent.fn, { initialDelay: 1, shouldRetry: shouldRetryError }), RelayHttpError);
+    assert.equal(permanent.calls(), 1);
+
+    const aborted = failing(new RelayAbortedError());
+    await assert.rejects(retryWithBackoff(aborted.fn, { initialDelay: 1 }), RelayAbortedError);
+    assert.equal(aborted.calls(), 1);
+  });
+
+  it('waits for Retry-After instead of the backoff delay', async () => {
+    const { fn } = failing(httpError(429, 5));
+    const delays: number[] = [];
+
+    await retryWithBackoff(fn, { initialDelay: 1, maxDelay: 10, onRetry: (_, delay) => delays.push(delay) });
+
+    assert.deepEqual(delays, [5]);
+  });
+
+  it('fails fast when Retry-After exceeds maxDelay', async () => {
+    const error = httpError(429, 60_000);
+    const { fn, calls } = failing(error);
+
+    await assert.rejects(retryWithBackoff(fn, { initialDelay: 1, maxDelay: 1000 }), (thrown) => thrown === error);
+    assert.equal(calls(), 1);
+  });
+});
+
+describe('shouldRetryError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    assert.equal(shouldRetryError(httpError(429)), true);
+    assert.equal(shouldRetryError(httpError(503)), true);
+    assert.equal(shouldRetryError({ code: 'ECONNRESET' }), true);
+  });
+
+  it('does not retry client errors, rejections or aborts', () => {
+    assert.equal(shouldRetryError(httpError(400)), false);
+    assert.equal(shouldRetryError({ code: 'ACTION_REJECTED' }), false);
+    assert.equal(shouldRetryError(new RelayAbortedError()), false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('parses a delay in seconds', () => {
+    assert.equal(parseRetryAfter('30'), 30_000);
+    assert.equal(parseRetryAfter(' 0 '), 0);
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now), 10_000);
+    assert.equal(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now), 0);
+  });
+
+  it('ignores missing and invalid values', () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter(''), undefined);
+    assert.equal(parseRetryAfter('soon'), undefined);
+  });
+});
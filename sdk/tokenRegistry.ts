@@ -0,0 +1,275 @@
+/**
+ * Per-chain token metadata registry
+ *
+ * Caches what token transfers need to know about a token (name, symbol,
+ * decimals, permit domain and permit method) so it is read once instead of on
+ * every transfer. The registry can be seeded from a Uniswap-style token list,
+ * and tokens that are not cached yet are looked up together in one Multicall3
+ * `eth_call`. Nonces change with every permit and are never cached.
+ */
+
+import { ethers } from 'ethers';
+import type { EIP2612Domain, PermitMethod, TokenList, TokenMetadata } from './types';
+import { Cache, isValidAddress } from './utils';
+import { EIP712_DOMAIN_ABI, parseEip712Domain } from './eip712';
+import { matchTokenDomain } from './tokenTransfer';
+import { multicall, MULTICALL3_ADDRESS } from './multicall';
+
+// Type alias for ethers provider
+type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
+
+/** Getters read for each uncached token */
+const TOKEN_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function version() view returns (string)',
+  ...EIP712_DOMAIN_ABI,
+];
+
+const TOKEN_METADATA_CALLS = ['name', 'symbol', 'decimals', 'version', 'eip712Domain', 'DOMAIN_SEPARATOR'] as const;
+
+const tokenInterface = new ethers.Interface(TOKEN_METADATA_ABI);
+
+/** Default time token metadata stays cached */
+const DEFAULT_TOKEN_METADATA_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+/** TokenRegistry options */
+export interface TokenRegistryOptions {
+  /** How long metadata stays cached, in milliseconds (default: 24 hours) */
+  ttl?: number;
+  /** Multicall3 contract used to batch lookups (default: the canonical deployment) */
+  multicallAddress?: string;
+}
+
+/**
+ * Token metadata by chain and address
+ *
+ * @example
+ * ```typescript
+ * const registry = new TokenRegistry();
+ * registry.loadTokenList(await (await fetch(TOKEN_LIST_URL)).json());
+ *
+ * const [usdc, dai] = await registry.lookup(1, [USDC_ADDRESS, DAI_ADDRESS], provider);
+ * console.log(usdc.decimals, dai.permitDomain);
+ * ```
+ */
+export class TokenRegistry {
+  private cache: Cache<TokenMetadata>;
+  private pending = new Map<string, Promise<TokenMetadata>>();
+  private multicallAddress: string;
+
+  constructor(options: TokenRegistryOptions = {}) {
+    this.cache = new Cache<TokenMetadata>(options.ttl ?? DEFAULT_TOKEN_METADATA_TTL);
+    this.multicallAddress = options.multicallAddress ?? MULTICALL3_ADDRESS;
+  }
+
+  /**
+   * Cached metadata of a token, without any RPC call
+   *
+   * @returns The cached metadata, or null if the token is not cached
+   */
+  get(chainId: number, tokenAddress: string): TokenMetadata | null {
+    return this.cache.get(this.key(chainId, tokenAddress));
+  }
+
+  /**
+   * Add or update a token's metadata; fields that are not given keep their cached value
+   */
+  set(metadata: TokenMetadata): void {
+    if (!isValidAddress(metadata.address)) {
+      throw new Error('Invalid token address');
+    }
+
+    const key = this.key(metadata.chainId, metadata.address);
+    const defined = Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as Partial<TokenMetadata>;
+
+    this.cache.set(key, {
+      ...this.cache.get(key),
+      ...defined,
+      chainId: metadata.chainId,
+      address: ethers.getAddress(metadata.address),
+    });
+  }
+
+  /**
+   * Remember how transfers of a token are authorized
+   */
+  setPermitMethod(chainId: number, tokenAddress: string, permitMethod: PermitMethod): void {
+    this.set({ chainId, address: tokenAddress, permitMethod });
+  }
+
+  /**
+   * Seed the registry from a Uniswap-style token list
+   *
+   * Tokens with an invalid address are skipped. Permit domains are not part of
+   * token lists and are still looked up on-chain on first use.
+   *
+   * @param list - Parsed token list JSON
+   * @param chainId - Only load the tokens of this chain (default: all chains)
+   * @returns Number of tokens loaded
+   */
+  loadTokenList(list: TokenList, chainId?: number): number {
+    if (!list || !Array.isArray(list.tokens)) {
+      throw new Error('Invalid token list: missing tokens');
+    }
+
+    let loaded = 0;
+    for (const token of list.tokens) {
+      if ((chainId !== undefined && token.chainId !== chainId) || !isValidAddress(token.address)) {
+        continue;
+      }
+
+      const permitMethod = token.extensions?.permitMethod;
+      this.set({
+        chainId: token.chainId,
+        address: token.address,
+        name: token.name,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        ...(typeof permitMethod === 'string' && { permitMethod }),
+      });
+      loaded++;
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Metadata of tokens, looking up uncached tokens on-chain in one batch
+   *
+   * A token counts as cached once its permit domain has been looked up, so
+   * tokens seeded from a token list are looked up on first use.
+   *
+   * @param chainId - Chain the tokens are deployed on
+   * @param tokenAddresses - Token contract addresses
+   * @param provider - Ethers provider for the chain
+   * @returns Metadata of each token, in the same order
+   */
+  async lookup(chainId: number, tokenAddresses: string[], provider: EthersProvider): Promise<TokenMetadata[]> {
+    tokenAddresses.forEach((tokenAddress) => {
+      if (!isValidAddress(tokenAddress)) {
+        throw new Error(`Invalid token address ${tokenAddress}`);
+      }
+    });
+
+    const uncached = new Map<string, string>();
+    for (const tokenAddress of tokenAddresses) {
+      const key = this.key(chainId, tokenAddress);
+      if (!this.isResolved(this.cache.get(key)) && !this.pending.has(key)) {
+        uncached.set(key, tokenAddress);
+      }
+    }
+
+    if (uncached.size > 0) {
+      const batch = this.fetch(chainId, Array.from(uncached.values()), provider);
+      uncached.forEach((tokenAddress, key) => {
+        const lookup = batch.then((results) => results[this.key(chainId, tokenAddress)]);
+        this.pending.set(key, lookup);
+        lookup.then(
+          () => this.pending.delete(key),
+          () => this.pending.delete(key)
+        );
+      });
+    }
+
+    return Promise.all(
+      tokenAddresses.map((tokenAddress) => {
+        const key = this.key(chainId, tokenAddress);
+        const cached = this.cache.get(key);
+        return this.isResolved(cached) ? cached : this.pending.get(key)!;
+      })
+    );
+  }
+
+  /**
+   * Clear cached metadata
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Read the metadata of tokens through Multicall3 and cache it
+   * @private
+   */
+  private async fetch(
+    chainId: number,
+    tokenAddresses: string[],
+    provider: EthersProvider
+  ): Promise<Record<string, TokenMetadata>> {
+    const calls = tokenAddresses.flatMap((tokenAddress) =>
+      TOKEN_METADATA_CALLS.map((method) => ({
+        target: tokenAddress,
+        callData: tokenInterface.encodeFunctionData(method),
+      }))
+    );
+    const results = await multicall(calls, provider, this.multicallAddress);
+
+    const lookedUp: Record<string, TokenMetadata> = {};
+    tokenAddresses.forEach((tokenAddress, index) => {
+      const reads = results.slice(index * TOKEN_METADATA_CALLS.length, (index + 1) * TOKEN_METADATA_CALLS.length);
+      const decode = (method: (typeof TOKEN_METADATA_CALLS)[number]): any => {
+        const { success, returnData } = reads[TOKEN_METADATA_CALLS.indexOf(method)];
+        if (!success) {
+          return undefined;
+        }
+        try {
+          return tokenInterface.decodeFunctionResult(method, returnData);
+        } catch {
+          return undefined;
+        }
+      };
+
+      const name: string | undefined = decode('name')?.[0];
+      const symbol: string | undefined = decode('symbol')?.[0];
+      const decimals = decode('decimals')?.[0];
+      const version: string | undefined = decode('version')?.[0];
+      const eip712Domain = decode('eip712Domain');
+      const domainSeparator: string | null = decode('DOMAIN_SEPARATOR')?.[0] ?? null;
+
+      let permitDomain: EIP2612Domain | null;
+      try {
+        permitDomain = matchTokenDomain(tokenAddress, chainId, {
+          onChainDomain: eip712Domain ? parseEip712Domain(eip712Domain) : null,
+          domainSeparator,
+          name,
+          version,
+        });
+      } catch {
+        // getTokenDomain() reports why when the domain is needed
+        permitDomain = null;
+      }
+
+      this.set({
+        chainId,
+        address: tokenAddress,
+        name,
+        symbol,
+        decimals: decimals !== undefined ? Number(decimals) : undefined,
+        permitDomain,
+      });
+      lookedUp[this.key(chainId, tokenAddress)] = this.get(chainId, tokenAddress)!;
+    });
+
+    return lookedUp;
+  }
+
+  /**
+   * Whether a cached entry has been looked up on-chain
+   * @private
+   */
+  private isResolved(metadata: TokenMetadata | null): metadata is TokenMetadata {
+    return metadata !== null && metadata.permitDomain !== undefined;
+  }
+
+  /**
+   * Cache key of a token
+   * @private
+   */
+  private key(chainId: number, tokenAddress: string): string {
+    return `${chainId}:${tokenAddress.toLowerCase()}`;
+  }
+}
@@ -2,16 +2,32 @@
  * Token Transfer utilities for gasless ERC20 transfers
  *
  * This module provides utilities for executing gasless token transfers
- * by combining EIP-2612 permit signatures with meta-transactions.
+ * by combining EIP-2612 permit signatures with meta-transactions. Tokens
+ * without EIP-2612 are transferred through Uniswap's Permit2
+ * (`SignatureTransfer.permitTransferFrom`), DAI's non-standard permit or
+ * EIP-3009 `transferWithAuthorization`. Each of these is a permit flavor,
+ * selected per token through a PermitFlavorRegistry.
  */
 
 import { ethers } from 'ethers';
 import type {
-  TokenTransferParams,
+  OnChainEip712Domain,
+  BulkTransferRecipient,
+  FacilitatorMode,
   EIP2612Domain,
   EIP2612PermitMessage,
+  Permit2TransferMessage,
+  PermitMethod,
   SignTypedDataFunction,
 } from './types';
+import { isValidAddress } from './utils';
+import {
+  RelayAbortedError,
+  PermitDomainMismatchError,
+  PermitAlreadyUsedError,
+  Permit2ApprovalRequiredError,
+} from './errors';
+import { fetchEip712Domain, fetchDomainSeparator, computeDomainSeparator } from './eip712';
 
 // Type alias for ethers provider
 type EthersProvider = InstanceType<typeof ethers.JsonRpcProvider>;
@@ -43,8 +59,93 @@ const ERC20_PERMIT_ABI = [
  */
 const FACILITATOR_ABI = [
   'function facilitateTransferWithPermit(address token, address owner, address to, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateBulkTransferWithPermit(address token, address owner, (address to, uint256 amount)[] recipients, uint256 totalValue, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateTransferWithNonceTracking(address token, address owner, address to, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateBulkTransferWithNonceTracking(address token, address owner, (address to, uint256 amount)[] recipients, uint256 totalValue, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+  'function facilitateTransferWithPermit2(address owner, ((address token, uint256 amount) permitted, uint256 nonce, uint256 deadline) permit, address to, bytes signature)',
+  'function facilitateTransferWithDaiPermit(address token, address holder, address to, uint256 value, uint256 nonce, uint256 expiry, (uint8 v, bytes32 r, bytes32 s) permitSignature, (uint8 v, bytes32 r, bytes32 s) revokeSignature)',
+  'function facilitateTransferWithAuthorization(address token, address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function supportsPermit(address token) view returns (bool)',
+  'function isPermitUsed(address token, bytes32 permitHash) view returns (bool)',
+  'function calculatePermitHash(address token, address owner, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) view returns (bytes32)',
 ];
 
+/** DAI permit type definition (`allowed` grants or revokes an unlimited allowance) */
+const DAI_PERMIT_TYPES = {
+  Permit: [
+    { name: 'holder', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'allowed', type: 'bool' },
+  ],
+};
+
+/** EIP-3009 TransferWithAuthorization type definition */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+/** Canonical Uniswap Permit2 deployment (same address on most chains) */
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
+/**
+ * Minimal Permit2 and ERC20 allowance ABI
+ */
+const PERMIT2_ABI = [
+  'function nonceBitmap(address owner, uint256 wordPos) view returns (uint256)',
+];
+const ERC20_ABI = [
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+];
+
+/**
+ * Permit2 SignatureTransfer type definition, with the recipient as witness
+ *
+ * Must match the facilitator's witness type string:
+ * `TransferRecipient witness)TokenPermissions(address token,uint256 amount)TransferRecipient(address to)`
+ */
+const PERMIT2_TRANSFER_TYPES = {
+  PermitWitnessTransferFrom: [
+    { name: 'permitted', type: 'TokenPermissions' },
+    { name: 'spender', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+    { name: 'witness', type: 'TransferRecipient' },
+  ],
+  TokenPermissions: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+  ],
+  TransferRecipient: [
+    { name: 'to', type: 'address' },
+  ],
+};
+
+/** Number of Permit2 bitmap words scanned for an unused nonce before giving up */
+const PERMIT2_MAX_NONCE_WORDS = 16n;
+
+/** Facilitator function names per mode */
+const FACILITATOR_FUNCTIONS: Record<FacilitatorMode, { single: string; bulk: string }> = {
+  permit: {
+    single: 'facilitateTransferWithPermit',
+    bulk: 'facilitateBulkTransferWithPermit',
+  },
+  nonceTracking: {
+    single: 'facilitateTransferWithNonceTracking',
+    bulk: 'facilitateBulkTransferWithNonceTracking',
+  },
+};
+
 /**
  * Get the current nonce for a token holder
  *
@@ -72,18 +173,96 @@ export async function getTokenNonce(
     const nonce = await tokenContract.nonces(ownerAddress);
     return BigInt(nonce.toString());
   } catch (error) {
-    console.error('Failed to get token nonce:', error);
     throw new Error(`Failed to get nonce for token ${tokenAddress}: ${error}`);
   }
 }
 
 /**
- * Get token metadata for EIP-2612 domain
+ * Get a token's decimals
+ *
+ * @param tokenAddress - ERC20 token contract address
+ * @param provider - Ethers provider or RPC URL
+ * @returns Number of decimals of the token's base unit
+ */
+export async function getTokenDecimals(
+  tokenAddress: string,
+  provider: EthersProvider | string
+): Promise<number> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, ethersProvider);
+
+  try {
+    const decimals = await tokenContract.decimals();
+    return Number(decimals);
+  } catch (error) {
+    throw new Error(`Failed to get decimals for token ${tokenAddress}: ${error}`);
+  }
+}
+
+/**
+ * Get a token holder's balance
+ *
+ * @param tokenAddress - ERC20 token contract address
+ * @param ownerAddress - Token holder's address
+ * @param provider - Ethers provider or RPC URL
+ * @returns Balance in the token's base unit
+ */
+export async function getTokenBalance(
+  tokenAddress: string,
+  ownerAddress: string,
+  provider: EthersProvider | string
+): Promise<bigint> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, ethersProvider);
+
+  try {
+    const balance = await tokenContract.balanceOf(ownerAddress);
+    return BigInt(balance.toString());
+  } catch (error) {
+    throw new Error(`Failed to get balance for token ${tokenAddress}: ${error}`);
+  }
+}
+
+/**
+ * Convert a token amount to base units
+ *
+ * @param amount - Amount as a decimal string (e.g. "12.5"); bigints are already in base units
+ * @param decimals - Token decimals
+ * @returns Amount in the token's base unit
+ * @throws Error if the amount is not a decimal number or has more fraction digits than the token
+ */
+export function parseTokenAmount(amount: string | bigint, decimals: number): bigint {
+  if (typeof amount === 'bigint') {
+    return amount;
+  }
+
+  try {
+    return ethers.parseUnits(amount.trim(), decimals);
+  } catch (error) {
+    throw new Error(`Invalid token amount "${amount}" for a token with ${decimals} decimals: ${error}`);
+  }
+}
+
+/**
+ * Discover a token's EIP-712 permit domain
+ *
+ * Candidates come from ERC-5267 `eip712Domain()` first, then from `name()`
+ * and `version()` (version "1" or no version when `version()` is missing,
+ * plus a salted variant for bridged tokens). If the token exposes `DOMAIN_SEPARATOR()`, the
+ * first candidate whose separator matches is returned; otherwise the first
+ * candidate is returned unverified.
  *
  * @param tokenAddress - ERC20 token contract address
  * @param chainId - Chain ID
  * @param provider - Ethers provider or RPC URL
  * @returns EIP-2612 domain
+ * @throws PermitDomainMismatchError if no candidate matches the token's DOMAIN_SEPARATOR()
  */
 export async function getTokenDomain(
   tokenAddress: string,
@@ -100,28 +279,117 @@ export async function getTokenDomain(
     ethersProvider
   );
 
-  try {
-    const name = await tokenContract.name();
+  const [onChainDomain, domainSeparator] = await Promise.all([
+    fetchEip712Domain(tokenAddress, ethersProvider).catch(() => null),
+    fetchDomainSeparator(tokenAddress, ethersProvider),
+  ]);
 
-    // Try to get version, default to "1" if not available
-    let version = '1';
-    try {
-      version = await tokenContract.version();
-    } catch {
-      // Some tokens don't implement version(), use default
-      console.log(`Token ${tokenAddress} doesn't implement version(), using default "1"`);
-    }
+  // ERC-5267 describes the domain exactly, so name() and version() are only read without it
+  const described = describeTokenDomain(onChainDomain);
+  if (described && (domainSeparator === null || matchesDomainSeparator(described, domainSeparator))) {
+    return described;
+  }
 
-    return {
-      name,
-      version,
-      chainId,
-      verifyingContract: tokenAddress,
-    };
+  let name: string;
+  try {
+    name = await tokenContract.name();
   } catch (error) {
-    console.error('Failed to get token domain:', error);
     throw new Error(`Failed to get token metadata for ${tokenAddress}: ${error}`);
   }
+
+  let version: string | undefined;
+  try {
+    version = await tokenContract.version();
+  } catch {
+    // Some tokens don't implement version()
+  }
+
+  return matchTokenDomain(tokenAddress, chainId, { onChainDomain, domainSeparator, name, version });
+}
+
+/**
+ * Token domain described by ERC-5267, if it names the token and its contract
+ */
+const describeTokenDomain = (onChainDomain: OnChainEip712Domain | null): EIP2612Domain | null => {
+  if (onChainDomain?.name === undefined || onChainDomain.verifyingContract === undefined) {
+    return null;
+  }
+
+  return {
+    name: onChainDomain.name,
+    verifyingContract: onChainDomain.verifyingContract,
+    ...(onChainDomain.version !== undefined && { version: onChainDomain.version }),
+    ...(onChainDomain.chainId !== undefined && { chainId: onChainDomain.chainId }),
+    ...(onChainDomain.salt !== undefined && { salt: onChainDomain.salt }),
+  };
+};
+
+const matchesDomainSeparator = (candidate: EIP2612Domain, domainSeparator: string): boolean =>
+  computeDomainSeparator(candidate as OnChainEip712Domain).toLowerCase() === domainSeparator.toLowerCase();
+
+/**
+ * Pick a token's permit domain from values already read from the token
+ *
+ * Same candidates and checks as `getTokenDomain()`, for callers that batch
+ * the reads (e.g. through Multicall3).
+ *
+ * @param tokenAddress - ERC20 token contract address
+ * @param chainId - Chain ID the token is deployed on
+ * @param reads - The token's `eip712Domain()`, `DOMAIN_SEPARATOR()`, `name()` and `version()`, null or undefined where unavailable
+ * @returns EIP-712 domain of the token
+ * @throws PermitDomainMismatchError if no candidate matches the token's DOMAIN_SEPARATOR()
+ * @throws Error if the domain cannot be built without `name()`
+ */
+export function matchTokenDomain(
+  tokenAddress: string,
+  chainId: number,
+  reads: {
+    onChainDomain: OnChainEip712Domain | null;
+    domainSeparator: string | null;
+    name?: string;
+    version?: string;
+  }
+): EIP2612Domain {
+  const { onChainDomain, domainSeparator, name, version } = reads;
+  const candidates: EIP2612Domain[] = [];
+
+  // ERC-5267 describes the domain exactly, including salts
+  const described = describeTokenDomain(onChainDomain);
+  if (described) {
+    if (domainSeparator === null || matchesDomainSeparator(described, domainSeparator)) {
+      return described;
+    }
+    candidates.push(described);
+  }
+
+  if (name === undefined) {
+    throw new Error(`Failed to get token metadata for ${tokenAddress}: name() is unavailable`);
+  }
+
+  const versions = version !== undefined ? [version] : ['1', undefined];
+  for (const candidateVersion of versions) {
+    const versionField = candidateVersion !== undefined ? { version: candidateVersion } : {};
+    candidates.push({ name, ...versionField, chainId, verifyingContract: tokenAddress });
+  }
+
+  // Bridged tokens (e.g. Polygon PoS) put the chain ID in a salt instead of chainId
+  candidates.push({
+    name,
+    version: version ?? '1',
+    verifyingContract: tokenAddress,
+    salt: ethers.zeroPadValue(ethers.toBeHex(chainId), 32),
+  });
+
+  if (domainSeparator === null) {
+    return candidates[0];
+  }
+
+  const match = candidates.find((candidate) => matchesDomainSeparator(candidate, domainSeparator));
+  if (!match) {
+    throw new PermitDomainMismatchError(tokenAddress, domainSeparator, candidates);
+  }
+
+  return match;
 }
 
 /**
@@ -129,6 +397,7 @@ export async function getTokenDomain(
  *
  * @param params - Permit parameters
  * @param signTypedData - Signing function
+ * @param signal - Optional abort signal forwarded to the signer
  * @returns Signature object with v, r, s components
  */
 export async function signPermit(
@@ -142,13 +411,17 @@ export async function signPermit(
     chainId: number;
     domain: EIP2612Domain;
   },
-  signTypedData: SignTypedDataFunction
+  signTypedData: SignTypedDataFunction,
+  signal?: AbortSignal
 ): Promise<{ v: number; r: string; s: string; signature: string }> {
+  // Sign exactly the fields of the token's domain
+  const { version, chainId, salt } = params.domain;
   const domain = {
     name: params.domain.name,
-    version: params.domain.version || '1',
-    chainId: params.chainId,
+    ...(version !== undefined && { version }),
+    ...(chainId !== undefined && { chainId }),
     verifyingContract: params.tokenAddress as `0x${string}`,
+    ...(salt !== undefined && { salt: salt as `0x${string}` }),
   };
 
   const message: EIP2612PermitMessage = {
@@ -159,21 +432,13 @@ export async function signPermit(
     deadline: params.deadline,
   };
 
-  console.log('🔐 EIP-2612 Permit Signature Request:');
-  console.log('Domain:', domain);
-  console.log('Message:', {
-    ...message,
-    value: message.value.toString(),
-    nonce: message.nonce.toString(),
-    deadline: message.deadline.toString(),
-  });
-
   try {
     const signature = await signTypedData({
       domain,
       types: PERMIT_TYPES,
       primaryType: 'Permit',
       message: message as any,
+      ...(signal && { signal }),
     });
 
     // Split signature into v, r, s components
@@ -186,17 +451,20 @@ export async function signPermit(
       signature,
     };
   } catch (error) {
-    console.error('Failed to sign permit:', error);
+    if (error instanceof RelayAbortedError) {
+      throw error;
+    }
     throw new Error(`Permit signature failed: ${error}`);
   }
 }
 
 /**
- * Encode facilitateTransferWithPermit function call
+ * Encode a single-recipient facilitator call
  *
  * @param params - Token transfer parameters
  * @param permitSignature - EIP-2612 permit signature
  * @param deadline - Permit deadline
+ * @param mode - Facilitator entry point (defaults to 'permit')
  * @returns Encoded function data
  */
 export function encodeFacilitatorCall(
@@ -207,12 +475,13 @@ export function encodeFacilitatorCall(
     amount: bigint;
   },
   permitSignature: { v: number; r: string; s: string },
-  deadline: bigint
+  deadline: bigint,
+  mode: FacilitatorMode = 'permit'
 ): string {
   const facilitatorInterface = new ethers.Interface(FACILITATOR_ABI);
 
   const encodedData = facilitatorInterface.encodeFunctionData(
-    'facilitateTransferWithPermit',
+    FACILITATOR_FUNCTIONS[mode].single,
     [
       params.tokenAddress,
       params.owner,
@@ -225,10 +494,439 @@ export function encodeFacilitatorCall(
     ]
   );
 
-  console.log('📝 Encoded facilitator call data:', encodedData);
   return encodedData;
 }
 
+/**
+ * Encode a bulk facilitator call
+ *
+ * @param params - Bulk transfer parameters (recipients must already be normalized)
+ * @param permitSignature - EIP-2612 permit signature covering the total amount
+ * @param deadline - Permit deadline
+ * @param mode - Facilitator entry point (defaults to 'permit')
+ * @returns Encoded function data
+ */
+export function encodeBulkFacilitatorCall(
+  params: {
+    tokenAddress: string;
+    owner: string;
+    recipients: Array<{ to: string; amount: bigint }>;
+    totalAmount: bigint;
+  },
+  permitSignature: { v: number; r: string; s: string },
+  deadline: bigint,
+  mode: FacilitatorMode = 'permit'
+): string {
+  const facilitatorInterface = new ethers.Interface(FACILITATOR_ABI);
+
+  const encodedData = facilitatorInterface.encodeFunctionData(
+    FACILITATOR_FUNCTIONS[mode].bulk,
+    [
+      params.tokenAddress,
+      params.owner,
+      params.recipients.map((recipient) => [recipient.to, recipient.amount]),
+      params.totalAmount,
+      deadline,
+      permitSignature.v,
+      permitSignature.r,
+      permitSignature.s,
+    ]
+  );
+
+  return encodedData;
+}
+
+/**
+ * Calculate the replay-protection hash the facilitator will record for a permit
+ *
+ * Each facilitator entry point packs a slightly different set of fields into
+ * the hash stored in `usedPermits`. For `facilitateTransferWithPermit` the
+ * contract's own `calculatePermitHash` view is used; the other entry points
+ * have no matching view, so their packing is mirrored locally.
+ *
+ * @param params - Permit parameters; `nonce` is required for nonce-tracking mode
+ *                 and `recipientCount` for bulk transfers
+ * @param permitSignature - EIP-2612 permit signature
+ * @param provider - Ethers provider or RPC URL
+ * @returns Permit hash as recorded by the facilitator
+ */
+export async function calculateFacilitatorPermitHash(
+  params: {
+    facilitatorAddress: string;
+    tokenAddress: string;
+    owner: string;
+    value: bigint;
+    deadline: bigint;
+    mode: FacilitatorMode;
+    nonce?: bigint;
+    recipientCount?: number;
+  },
+  permitSignature: { v: number; r: string; s: string },
+  provider: EthersProvider | string
+): Promise<string> {
+  const isBulk = params.recipientCount !== undefined;
+
+  if (params.mode === 'nonceTracking' && params.nonce === undefined) {
+    throw new Error('Nonce is required to calculate a nonce-tracking permit hash');
+  }
+
+  if (params.mode === 'permit' && !isBulk) {
+    const ethersProvider = typeof provider === 'string'
+      ? new ethers.JsonRpcProvider(provider)
+      : provider;
+
+    const facilitatorContract = new ethers.Contract(
+      params.facilitatorAddress,
+      FACILITATOR_ABI,
+      ethersProvider
+    );
+
+    try {
+      return await facilitatorContract.calculatePermitHash(
+        params.tokenAddress,
+        params.owner,
+        params.value,
+        params.deadline,
+        permitSignature.v,
+        permitSignature.r,
+        permitSignature.s
+      );
+    } catch (error) {
+      throw new Error(`Failed to calculate permit hash on ${params.facilitatorAddress}: ${error}`);
+    }
+  }
+
+  const head = [params.tokenAddress, params.owner, params.facilitatorAddress, params.value, params.deadline];
+  const headTypes = ['address', 'address', 'address', 'uint256', 'uint256'];
+  const signatureTypes = ['uint8', 'bytes32', 'bytes32'];
+  const signatureValues = [permitSignature.v, permitSignature.r, permitSignature.s];
+
+  if (params.mode === 'permit') {
+    // facilitateBulkTransferWithPermit
+    return ethers.solidityPackedKeccak256(
+      [...headTypes, 'uint256', ...signatureTypes],
+      [...head, params.recipientCount, ...signatureValues]
+    );
+  }
+
+  if (!isBulk) {
+    // facilitateTransferWithNonceTracking
+    return ethers.solidityPackedKeccak256(
+      [...headTypes, 'uint256', ...signatureTypes],
+      [...head, params.nonce, ...signatureValues]
+    );
+  }
+
+  // facilitateBulkTransferWithNonceTracking (signature is not part of the hash)
+  return ethers.solidityPackedKeccak256(
+    [...headTypes, 'uint256', 'uint256'],
+    [...head, params.nonce, params.recipientCount]
+  );
+}
+
+/**
+ * Check whether the facilitator has already consumed a permit
+ *
+ * @param facilitatorAddress - ERC20Facilitator contract address
+ * @param tokenAddress - ERC20 token contract address
+ * @param permitHash - Hash from calculateFacilitatorPermitHash
+ * @param provider - Ethers provider or RPC URL
+ * @returns True if the permit has already been used
+ */
+export async function isPermitUsed(
+  facilitatorAddress: string,
+  tokenAddress: string,
+  permitHash: string,
+  provider: EthersProvider | string
+): Promise<boolean> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const facilitatorContract = new ethers.Contract(
+    facilitatorAddress,
+    FACILITATOR_ABI,
+    ethersProvider
+  );
+
+  try {
+    return await facilitatorContract.isPermitUsed(tokenAddress, permitHash);
+  } catch (error) {
+    throw new Error(`Failed to check permit usage on ${facilitatorAddress}: ${error}`);
+  }
+}
+
+/**
+ * Validate and normalize bulk transfer recipients
+ *
+ * Mirrors the checks performed by the ERC20Facilitator contract so invalid
+ * lists are rejected before the user is asked to sign anything. Duplicate
+ * recipients are rejected as well, since they almost always indicate a bug
+ * in the caller's list.
+ *
+ * @param recipients - Recipients with their respective amounts
+ * @param decimals - Token decimals, when amounts are decimal strings (see parseTokenAmount)
+ * @returns Normalized recipients and the total amount to permit
+ * @throws Error if the list is empty, or contains an invalid, zero or duplicate recipient
+ */
+export function prepareBulkRecipients(recipients: BulkTransferRecipient[], decimals?: number): {
+  recipients: Array<{ to: string; amount: bigint }>;
+  totalAmount: bigint;
+} {
+  if (!recipients || recipients.length === 0) {
+    throw new Error('Recipient list must not be empty');
+  }
+
+  const seen = new Set<string>();
+  let totalAmount = 0n;
+
+  const normalized = recipients.map((recipient, index) => {
+    if (!isValidAddress(recipient.to)) {
+      throw new Error(`Invalid recipient address at index ${index}`);
+    }
+    if (BigInt(recipient.to) === 0n) {
+      throw new Error(`Recipient at index ${index} is the zero address`);
+    }
+
+    const key = recipient.to.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`Duplicate recipient ${recipient.to} at index ${index}`);
+    }
+    seen.add(key);
+
+    const amount = decimals !== undefined
+      ? parseTokenAmount(recipient.amount, decimals)
+      : typeof recipient.amount === 'string'
+        ? BigInt(recipient.amount)
+        : recipient.amount;
+
+    if (amount <= 0n) {
+      throw new Error(`Amount for recipient ${recipient.to} must be greater than 0`);
+    }
+
+    totalAmount += amount;
+    return { to: recipient.to, amount };
+  });
+
+  return { recipients: normalized, totalAmount };
+}
+
+/**
+ * Choose how a token transfer is authorized
+ *
+ * Asks the facilitator's `supportsPermit(token)` first. Facilitators without
+ * it are bypassed by probing the token's `DOMAIN_SEPARATOR()` and `nonces()`
+ * directly. Tokens without EIP-2612 use Permit2.
+ *
+ * @param tokenAddress - ERC20 token contract address
+ * @param facilitatorAddress - ERC20Facilitator contract address
+ * @param provider - Ethers provider or RPC URL
+ * @returns `'eip2612'` if the token supports permit, `'permit2'` otherwise
+ */
+export async function detectPermitMethod(
+  tokenAddress: string,
+  facilitatorAddress: string,
+  provider: EthersProvider | string
+): Promise<PermitMethod> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const facilitatorContract = new ethers.Contract(facilitatorAddress, FACILITATOR_ABI, ethersProvider);
+  try {
+    return (await facilitatorContract.supportsPermit(tokenAddress)) ? 'eip2612' : 'permit2';
+  } catch {
+    // Facilitator does not expose supportsPermit, probe the token itself
+  }
+
+  const tokenContract = new ethers.Contract(tokenAddress, ERC20_PERMIT_ABI, ethersProvider);
+  try {
+    await Promise.all([tokenContract.DOMAIN_SEPARATOR(), tokenContract.nonces(ethers.ZeroAddress)]);
+    return 'eip2612';
+  } catch {
+    return 'permit2';
+  }
+}
+
+/**
+ * Find an unused Permit2 SignatureTransfer nonce for an owner
+ *
+ * Permit2 tracks nonces in 256-bit bitmap words (`nonce = wordPos << 8 | bitPos`).
+ * Words are scanned from `startWord` and the lowest unset bit is returned.
+ *
+ * @param ownerAddress - Token owner's address
+ * @param provider - Ethers provider or RPC URL
+ * @param permit2Address - Permit2 contract address (defaults to the canonical deployment)
+ * @param startWord - First bitmap word to scan (default: 0)
+ * @returns Unused nonce
+ */
+export async function getPermit2Nonce(
+  ownerAddress: string,
+  provider: EthersProvider | string,
+  permit2Address: string = PERMIT2_ADDRESS,
+  startWord: bigint = 0n
+): Promise<bigint> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const permit2Contract = new ethers.Contract(permit2Address, PERMIT2_ABI, ethersProvider);
+
+  for (let wordPos = startWord; wordPos < startWord + PERMIT2_MAX_NONCE_WORDS; wordPos++) {
+    let bitmap: bigint;
+    try {
+      bitmap = BigInt((await permit2Contract.nonceBitmap(ownerAddress, wordPos)).toString());
+    } catch (error) {
+      throw new Error(`Failed to read Permit2 nonce bitmap from ${permit2Address}: ${error}`);
+    }
+
+    for (let bitPos = 0n; bitPos < 256n; bitPos++) {
+      if ((bitmap & (1n << bitPos)) === 0n) {
+        return (wordPos << 8n) | bitPos;
+      }
+    }
+  }
+
+  throw new Error(`No unused Permit2 nonce found for ${ownerAddress} in ${PERMIT2_MAX_NONCE_WORDS} bitmap words`);
+}
+
+/**
+ * Get how much of a token the owner has approved Permit2 to move
+ *
+ * Permit2 transfers require a one-time ERC20 approval of the Permit2 contract.
+ *
+ * @param tokenAddress - ERC20 token contract address
+ * @param ownerAddress - Token owner's address
+ * @param provider - Ethers provider or RPC URL
+ * @param permit2Address - Permit2 contract address (defaults to the canonical deployment)
+ * @returns Allowance granted to Permit2
+ */
+export async function getPermit2Allowance(
+  tokenAddress: string,
+  ownerAddress: string,
+  provider: EthersProvider | string,
+  permit2Address: string = PERMIT2_ADDRESS
+): Promise<bigint> {
+  const ethersProvider = typeof provider === 'string'
+    ? new ethers.JsonRpcProvider(provider)
+    : provider;
+
+  const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, ethersProvider);
+
+  try {
+    const allowance = await tokenContract.allowance(ownerAddress, permit2Address);
+    return BigInt(allowance.toString());
+  } catch (error) {
+    throw new Error(`Failed to get Permit2 allowance for token ${tokenAddress}: ${error}`);
+  }
+}
+
+/**
+ * Build the EIP-712 typed data of a Permit2 `PermitWitnessTransferFrom`
+ *
+ * The recipient is signed as the witness, so the facilitator can only send
+ * the tokens where the owner agreed to.
+ *
+ * @param params - Permit parameters; `spender` is the facilitator that calls Permit2
+ * @returns Domain, types, primary type and message to sign
+ */
+export function buildPermit2TransferTypedData(params: {
+  tokenAddress: string;
+  amount: bigint;
+  spender: string;
+  /** Recipient the facilitator must transfer to */
+  recipient: string;
+  nonce: bigint;
+  deadline: bigint;
+  chainId: number;
+  permit2Address?: string;
+}): {
+  domain: { name: string; chainId: number; verifyingContract: `0x${string}` };
+  types: typeof PERMIT2_TRANSFER_TYPES;
+  primaryType: 'PermitWitnessTransferFrom';
+  message: Permit2TransferMessage;
+} {
+  return {
+    // Permit2's domain has no version
+    domain: {
+      name: 'Permit2',
+      chainId: params.chainId,
+      verifyingContract: (params.permit2Address ?? PERMIT2_ADDRESS) as `0x${string}`,
+    },
+    types: PERMIT2_TRANSFER_TYPES,
+    primaryType: 'PermitWitnessTransferFrom',
+    message: {
+      permitted: {
+        token: params.tokenAddress,
+        amount: params.amount,
+      },
+      spender: params.spender,
+      nonce: params.nonce,
+      deadline: params.deadline,
+      witness: {
+        to: params.recipient,
+      },
+    },
+  };
+}
+
+/**
+ * Sign a Permit2 `PermitWitnessTransferFrom`
+ *
+ * @param params - Permit parameters (see buildPermit2TransferTypedData)
+ * @param signTypedData - Signing function
+ * @param signal - Optional abort signal forwarded to the signer
+ * @returns Signature
+ */
+export async function signPermit2Transfer(
+  params: Parameters<typeof buildPermit2TransferTypedData>[0],
+  signTypedData: SignTypedDataFunction,
+  signal?: AbortSignal
+): Promise<string> {
+  const typedData = buildPermit2TransferTypedData(params);
+
+  try {
+    return await signTypedData({
+      ...typedData,
+      message: typedData.message as any,
+      ...(signal && { signal }),
+    });
+  } catch (error) {
+    if (error instanceof RelayAbortedError) {
+      throw error;
+    }
+    throw new Error(`Permit2 signature failed: ${error}`);
+  }
+}
+
+/**
+ * Encode a facilitator call that transfers through Permit2
+ *
+ * @param params - Token transfer parameters
+ * @param permit - Nonce and deadline of the signed PermitWitnessTransferFrom
+ * @param signature - Permit2 signature
+ * @returns Encoded function data
+ */
+export function encodePermit2FacilitatorCall(
+  params: {
+    tokenAddress: string;
+    owner: string;
+    recipient: string;
+    amount: bigint;
+  },
+  permit: { nonce: bigint; deadline: bigint },
+  signature: string
+): string {
+  const facilitatorInterface = new ethers.Interface(FACILITATOR_ABI);
+
+  return facilitatorInterface.encodeFunctionData('facilitateTransferWithPermit2', [
+    params.owner,
+    [[params.tokenAddress, params.amount], permit.nonce, permit.deadline],
+    params.recipient,
+    signature,
+  ]);
+}
+
 /**
  * Calculate permit deadline (defaults to 1 hour from now)
  *
@@ -245,3 +943,397 @@ export function calculateDeadline(customDeadline?: number): bigint {
   const oneHourInSeconds = 60 * 60;
   return BigInt(nowInSeconds + oneHourInSeconds);
 }
+
+/** Inputs shared by every permit flavor */
+export interface PermitFlavorContext {
+  tokenAddress: string;
+  owner: string;
+  /** ERC20Facilitator contract that redeems the permit */
+  facilitatorAddress: string;
+  recipient: string;
+  amount: bigint;
+  /** Expiry of the permit (Unix timestamp) */
+  deadline: bigint;
+  chainId: number;
+  provider: EthersProvider;
+  /** Token EIP-712 domain override (token-domain flavors only) */
+  tokenDomain?: EIP2612Domain;
+  /** Facilitator entry point (EIP-2612 only) */
+  facilitatorMode?: FacilitatorMode;
+  /** Permit2 contract (Permit2 only) */
+  permit2Address?: string;
+}
+
+/** EIP-712 typed data a permit flavor asks the owner to sign */
+export interface PermitTypedData {
+  domain: {
+    name?: string;
+    version?: string;
+    chainId?: number;
+    verifyingContract?: `0x${string}`;
+    salt?: `0x${string}`;
+  };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * A way of authorizing a gasless token transfer
+ *
+ * `assertAllowance` checks any standing allowance the transfer spends before
+ * anything is signed. `buildTypedData` reads whatever on-chain state the
+ * permit needs (nonces, domain) and throws if it cannot be used; `encodeCall` turns the
+ * signed typed data into the facilitator call that redeems it. Permits that
+ * grant more than the transfer (e.g. DAI's unlimited allowance) also build a
+ * revocation the owner signs second, which the facilitator applies after the
+ * transfer.
+ */
+export interface PermitFlavor {
+  method: PermitMethod;
+  /** The facilitator authorizes the owner as the ERC-2771 sender, which needs a relayer that appends it */
+  requiresRelayedSender?: boolean;
+  assertAllowance?(context: PermitFlavorContext): Promise<void>;
+  buildTypedData(context: PermitFlavorContext): Promise<PermitTypedData>;
+  buildRevocationTypedData?(context: PermitFlavorContext, typedData: PermitTypedData): Promise<PermitTypedData>;
+  encodeCall(
+    context: PermitFlavorContext,
+    typedData: PermitTypedData,
+    signature: string,
+    revocationSignature?: string
+  ): Promise<string>;
+}
+
+/**
+ * Token domain for a flavor that signs against the token contract
+ */
+const resolveTokenDomain = async (context: PermitFlavorContext): Promise<PermitTypedData['domain']> => {
+  const { version, chainId, salt, ...domain } =
+    context.tokenDomain ?? (await getTokenDomain(context.tokenAddress, context.chainId, context.provider));
+
+  return {
+    name: domain.name,
+    ...(version !== undefined && { version }),
+    ...(chainId !== undefined && { chainId }),
+    verifyingContract: context.tokenAddress as `0x${string}`,
+    ...(salt !== undefined && { salt: salt as `0x${string}` }),
+  };
+};
+
+/** EIP-2612 `permit` redeemed by `facilitateTransferWithPermit` or its nonce-tracking variant */
+export const eip2612PermitFlavor: PermitFlavor = {
+  method: 'eip2612',
+
+  async buildTypedData(context) {
+    const [domain, nonce] = await Promise.all([
+      resolveTokenDomain(context),
+      getTokenNonce(context.tokenAddress, context.owner, context.provider),
+    ]);
+
+    return {
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: {
+        owner: context.owner,
+        spender: context.facilitatorAddress,
+        value: context.amount,
+        nonce,
+        deadline: context.deadline,
+      },
+    };
+  },
+
+  async encodeCall(context, typedData, signature) {
+    const permitSignature = ethers.Signature.from(signature);
+    const mode = context.facilitatorMode ?? 'permit';
+
+    // Fail fast if the facilitator has already recorded this permit as used
+    const permitHash = await calculateFacilitatorPermitHash(
+      {
+        facilitatorAddress: context.facilitatorAddress,
+        tokenAddress: context.tokenAddress,
+        owner: context.owner,
+        value: context.amount,
+        deadline: context.deadline,
+        nonce: typedData.message.nonce as bigint,
+        mode,
+      },
+      permitSignature,
+      context.provider
+    );
+    if (await isPermitUsed(context.facilitatorAddress, context.tokenAddress, permitHash, context.provider)) {
+      throw new PermitAlreadyUsedError({
+        facilitatorAddress: context.facilitatorAddress,
+        tokenAddress: context.tokenAddress,
+        permitHash,
+        mode,
+      });
+    }
+
+    return encodeFacilitatorCall(
+      {
+        tokenAddress: context.tokenAddress,
+        owner: context.owner,
+        recipient: context.recipient,
+        amount: context.amount,
+      },
+      permitSignature,
+      context.deadline,
+      mode
+    );
+  },
+};
+
+/** Permit2 `PermitWitnessTransferFrom` redeemed by `facilitateTransferWithPermit2` */
+export const permit2PermitFlavor: PermitFlavor = {
+  method: 'permit2',
+
+  // Permit2 moves tokens with the owner's standing ERC20 approval of Permit2
+  async assertAllowance(context) {
+    const permit2Address = context.permit2Address ?? PERMIT2_ADDRESS;
+    const allowance = await getPermit2Allowance(context.tokenAddress, context.owner, context.provider, permit2Address);
+
+    if (allowance < context.amount) {
+      throw new Permit2ApprovalRequiredError(
+        context.tokenAddress,
+        context.owner,
+        permit2Address,
+        allowance,
+        context.amount
+      );
+    }
+  },
+
+  async buildTypedData(context) {
+    const permit2Address = context.permit2Address ?? PERMIT2_ADDRESS;
+    const nonce = await getPermit2Nonce(context.owner, context.provider, permit2Address);
+
+    const typedData = buildPermit2TransferTypedData({
+      tokenAddress: context.tokenAddress,
+      amount: context.amount,
+      spender: context.facilitatorAddress,
+      recipient: context.recipient,
+      nonce,
+      deadline: context.deadline,
+      chainId: context.chainId,
+      permit2Address,
+    });
+
+    return { ...typedData, message: { ...typedData.message } };
+  },
+
+  async encodeCall(context, typedData, signature) {
+    return encodePermit2FacilitatorCall(
+      {
+        tokenAddress: context.tokenAddress,
+        owner: context.owner,
+        recipient: context.recipient,
+        amount: context.amount,
+      },
+      { nonce: typedData.message.nonce as bigint, deadline: context.deadline },
+      signature
+    );
+  },
+};
+
+/**
+ * DAI's `permit(holder, spender, nonce, expiry, allowed, ...)`, redeemed by
+ * `facilitateTransferWithDaiPermit`
+ *
+ * A DAI permit signs neither the amount nor the recipient, and grants the
+ * facilitator an unlimited allowance. Whoever holds the signature could
+ * otherwise redeem it with any recipient and amount, so the facilitator only
+ * accepts it relayed for the holder (the ERC-2771 sender KalpSenderRelayer
+ * verified, whose relay signature covers recipient and amount). The holder
+ * also signs a second permit with the next nonce and `allowed: false`, which
+ * the facilitator applies right after the transfer to revoke the allowance.
+ */
+export const daiPermitFlavor: PermitFlavor = {
+  method: 'dai',
+  requiresRelayedSender: true,
+
+  async buildTypedData(context) {
+    const [domain, nonce] = await Promise.all([
+      resolveTokenDomain(context),
+      getTokenNonce(context.tokenAddress, context.owner, context.provider),
+    ]);
+
+    return {
+      domain,
+      types: DAI_PERMIT_TYPES,
+      primaryType: 'Permit',
+      message: {
+        holder: context.owner,
+        spender: context.facilitatorAddress,
+        nonce,
+        expiry: context.deadline,
+        allowed: true,
+      },
+    };
+  },
+
+  async buildRevocationTypedData(context, typedData) {
+    return {
+      ...typedData,
+      message: {
+        ...typedData.message,
+        nonce: (typedData.message.nonce as bigint) + 1n,
+        allowed: false,
+      },
+    };
+  },
+
+  async encodeCall(context, typedData, signature, revocationSignature) {
+    if (!revocationSignature) {
+      throw new Error('DAI permit transfers require a revocation signature');
+    }
+    const split = (value: string) => {
+      const { v, r, s } = ethers.Signature.from(value);
+      return { v, r, s };
+    };
+    const facilitatorInterface = new ethers.Interface(FACILITATOR_ABI);
+
+    return facilitatorInterface.encodeFunctionData('facilitateTransferWithDaiPermit', [
+      context.tokenAddress,
+      context.owner,
+      context.recipient,
+      context.amount,
+      typedData.message.nonce,
+      context.deadline,
+      split(signature),
+      split(revocationSignature),
+    ]);
+  },
+};
+
+/**
+ * EIP-3009 `transferWithAuthorization` (e.g. USDC) with a random bytes32
+ * nonce, redeemed by `facilitateTransferWithAuthorization`
+ */
+export const eip3009PermitFlavor: PermitFlavor = {
+  method: 'eip3009',
+
+  async buildTypedData(context) {
+    return {
+      domain: await resolveTokenDomain(context),
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: context.owner,
+        to: context.recipient,
+        value: context.amount,
+        validAfter: 0n,
+        validBefore: context.deadline,
+        // EIP-3009 nonces are unordered; a random one never collides in practice
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+      },
+    };
+  },
+
+  async encodeCall(context, typedData, signature) {
+    const { v, r, s } = ethers.Signature.from(signature);
+    const facilitatorInterface = new ethers.Interface(FACILITATOR_ABI);
+
+    return facilitatorInterface.encodeFunctionData('facilitateTransferWithAuthorization', [
+      context.tokenAddress,
+      context.owner,
+      context.recipient,
+      context.amount,
+      typedData.message.validAfter,
+      typedData.message.validBefore,
+      typedData.message.nonce,
+      v,
+      r,
+      s,
+    ]);
+  },
+};
+
+/** Flavors every PermitFlavorRegistry starts with */
+export const BUILTIN_PERMIT_FLAVORS: PermitFlavor[] = [
+  eip2612PermitFlavor,
+  permit2PermitFlavor,
+  daiPermitFlavor,
+  eip3009PermitFlavor,
+];
+
+/**
+ * Permit flavors by method, and the method to use for specific tokens
+ *
+ * @example
+ * ```typescript
+ * const registry = new PermitFlavorRegistry();
+ * registry.setTokenMethod(1, DAI_ADDRESS, 'dai');
+ * registry.setTokenMethod(1, USDC_ADDRESS, 'eip3009');
+ * ```
+ */
+export class PermitFlavorRegistry {
+  private flavors = new Map<string, PermitFlavor>();
+  private tokenMethods = new Map<string, PermitMethod>();
+
+  constructor(flavors: PermitFlavor[] = BUILTIN_PERMIT_FLAVORS) {
+    flavors.forEach((flavor) => this.register(flavor));
+  }
+
+  /**
+   * Add a flavor, replacing any flavor with the same method
+   */
+  register(flavor: PermitFlavor): void {
+    this.flavors.set(flavor.method, flavor);
+  }
+
+  /**
+   * Get the flavor of a method
+   *
+   * @throws Error if no flavor is registered for the method
+   */
+  get(method: PermitMethod): PermitFlavor {
+    const flavor = this.flavors.get(method);
+    if (!flavor) {
+      throw new Error(`No permit flavor registered for method "${method}"`);
+    }
+    return flavor;
+  }
+
+  /**
+   * Use a method for every transfer of a token on a chain
+   */
+  setTokenMethod(chainId: number, tokenAddress: string, method: PermitMethod): void {
+    if (!isValidAddress(tokenAddress)) {
+      throw new Error('Invalid token address');
+    }
+    this.get(method);
+    this.tokenMethods.set(`${chainId}:${tokenAddress.toLowerCase()}`, method);
+  }
+
+  /**
+   * Method configured for a token, if any
+   */
+  getTokenMethod(chainId: number, tokenAddress: string): PermitMethod | undefined {
+    return this.tokenMethods.get(`${chainId}:${tokenAddress.toLowerCase()}`);
+  }
+}
+
+/**
+ * Sign the typed data produced by a permit flavor
+ *
+ * @param typedData - Typed data from `PermitFlavor.buildTypedData`
+ * @param signTypedData - Signing function
+ * @param signal - Optional abort signal forwarded to the signer
+ * @returns Signature
+ */
+export async function signPermitTypedData(
+  typedData: PermitTypedData,
+  signTypedData: SignTypedDataFunction,
+  signal?: AbortSignal
+): Promise<string> {
+  try {
+    return await signTypedData({ ...typedData, ...(signal && { signal }) });
+  } catch (error) {
+    if (error instanceof RelayAbortedError) {
+      throw error;
+    }
+    throw new Error(`Permit signature failed: ${error}`);
+  }
+}
@@ -2,24 +2,160 @@
  * Type definitions for KalpRelaySDK
  */
 
+import type { Logger } from './logger';
+import type { PermitFlavorRegistry } from './tokenTransfer';
+import type { TokenRegistry } from './tokenRegistry';
+
+/**
+ * RelayRequest EIP-712 schema version
+ *
+ * - `1`: `RelayRequest(address target,bytes data,address user,address sponsor,uint256 chainId)`,
+ *   as verified by already-deployed KalpRelayer contracts
+ * - `2`: adds `uint256 nonce` and `uint256 deadline` so a signature can only be
+ *   relayed once and only until it expires
+ */
+export type RelayRequestVersion = 1 | 2;
+
+/** Request details passed to a sponsor resolver */
+export interface SponsorResolutionContext {
+  chainId: number;
+  target: string;
+  userAddress: string;
+  /** Application identifier from KalpRelayConfig.appId */
+  appId?: string;
+}
+
+/**
+ * Picks the sponsor for a request. Either a callback, or an HTTP endpoint that
+ * receives the context as a JSON POST body and responds with `{ sponsorAddress }`.
+ * An endpoint only receives its own `headers`, never the Kalp `apiKey`.
+ * Returning no address falls back to the chain's static `sponsorAddress`.
+ */
+export type SponsorResolver =
+  | ((context: SponsorResolutionContext) => Promise<string | null | undefined> | string | null | undefined)
+  | { url: string; headers?: Record<string, string> };
+
 /** Configuration for a single chain */
 export interface ChainConfig {
   /** Chain ID for the network */
   chainId: number;
   /** Kalp Relayer contract address */
   relayerAddress: string;
-  /** EIP-712 domain name */
-  domainName: string;
-  /** EIP-712 domain version */
-  domainVersion: string;
-  /** Fixed sponsor address for this chain */
+  /**
+   * EIP-712 domain name. Optional when a provider is configured and the
+   * relayer implements ERC-5267 `eip712Domain()`, which takes precedence.
+   */
+  domainName?: string;
+  /** EIP-712 domain version (optional, see `domainName`) */
+  domainVersion?: string;
+  /** Fixed sponsor address for this chain (fallback when a resolver is configured) */
   sponsorAddress: string;
+  /** Optional per-request sponsor resolver */
+  sponsorResolver?: SponsorResolver;
   /** API endpoint for relay requests (optional, uses default if not provided) */
   relayApiUrl?: string;
+  /** Base URL of the relay task status endpoint (default: `${relayApiUrl}/status`) */
+  relayStatusUrl?: string;
+  /**
+   * Base URL for looking up a submission by idempotency key (optional; no lookup without it).
+   * `GET {idempotencyLookupUrl}/{idempotencyKey}` must answer with a task status
+   * body that includes `taskId` for a request posted under that `Idempotency-Key`,
+   * and 404 when there is none.
+   */
+  idempotencyLookupUrl?: string;
   /** RPC URL for this chain (optional) */
   rpcUrl?: string;
   /** Chain name for display purposes */
   chainName?: string;
+  /** RelayRequest schema verified by the relayer contract (default: 1) */
+  relayRequestVersion?: RelayRequestVersion;
+  /**
+   * The relayer contract appends the verified user to the target call (ERC-2771),
+   * like `KalpSenderRelayer` (default: false). Relayers that forward `data`
+   * unchanged, like `KalpRelayer` 1.0.0, expect `data` to end with the user's
+   * address (`encodeERC2771CallData()`).
+   */
+  relayerAppendsSender?: boolean;
+}
+
+/** Retry configuration for relay submissions */
+export interface RetryConfig {
+  /** Maximum number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Initial delay in milliseconds (default: 1000) */
+  initialDelay?: number;
+  /** Backoff multiplier (default: 2) */
+  backoffMultiplier?: number;
+  /**
+   * Upper bound for retry delays in milliseconds (default: no limit). A
+   * Retry-After longer than this fails the submission instead of waiting.
+   */
+  maxDelay?: number;
+  /**
+   * Fraction of each backoff delay to randomize, from 0 to 1 (default: 0).
+   * With `0.5`, a 1000ms delay becomes a random delay between 500ms and 1000ms.
+   */
+  jitter?: number;
+  /**
+   * Decide whether a failed attempt is retried (default: `shouldRetryError`,
+   * which retries network errors, 429 and 5xx responses but never other 4xx)
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Pluggable key-value store used for SDK state that may need to outlive the
+ * process (e.g. backed by localStorage, Redis or a database)
+ */
+export interface KeyValueStore<T> {
+  get(key: string): T | undefined | Promise<T | undefined>;
+  set(key: string, value: T): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  /**
+   * Atomically add `delta` to a numeric value (missing counts as 0), expire the
+   * key after `ttl` milliseconds and return the new value (e.g. Redis `INCRBY`
+   * + `PEXPIRE`). Used for quota counters; stores shared between processes
+   * should implement it, since a get/set fallback is only atomic per process.
+   */
+  increment?(key: string, delta: number, ttl?: number): number | Promise<number>;
+}
+
+/** Request details passed to sponsor policies */
+export interface SponsorPolicyContext {
+  chainId: number;
+  /** Sponsor the policy is being evaluated for */
+  sponsorAddress: string;
+  target: string;
+  data: string;
+  userAddress: string;
+  /** 4-byte function selector of the call */
+  selector: string;
+}
+
+/** Outcome of a sponsor policy hook */
+export type SponsorPolicyDecision =
+  | { action: 'allow' }
+  | { action: 'deny'; reason: string }
+  | { action: 'reroute'; sponsorAddress: string };
+
+/** Client-side spending rules for a sponsor */
+export interface SponsorPolicy {
+  /** Target contracts this sponsor pays for (any if omitted) */
+  allowedTargets?: string[];
+  /**
+   * Function selectors this sponsor pays for, as 4-byte selectors or
+   * signatures (e.g. 'transfer(address,uint256)'). Either a list applying to
+   * every target, or a map of target address to list.
+   */
+  allowedSelectors?: string[] | Record<string, string[]>;
+  /** Maximum gas per relayed transaction, checked with estimateRelayGas */
+  maxGasPerTx?: bigint | number;
+  /** Maximum number of relays per user per UTC day */
+  dailyUserQuota?: number;
+  /** Custom check run after the built-in rules; can veto or reroute to another sponsor */
+  hook?: (
+    context: SponsorPolicyContext
+  ) => SponsorPolicyDecision | void | Promise<SponsorPolicyDecision | void>;
 }
 
 /** Main SDK configuration */
@@ -27,26 +163,62 @@ export interface KalpRelayConfig {
   /** Default chain configuration or single chain config */
   chainId: number;
   relayerAddress: string;
-  domainName: string;
-  domainVersion: string;
+  /** EIP-712 domain name of the default chain's relayer (optional, see ChainConfig) */
+  domainName?: string;
+  /** EIP-712 domain version of the default chain's relayer (optional, see ChainConfig) */
+  domainVersion?: string;
   /** Fixed sponsor address */
   sponsorAddress: string;
+  /** Optional per-request sponsor resolver for the default chain */
+  sponsorResolver?: SponsorResolver;
+  /** How long resolved sponsors are cached, in milliseconds (default: 300000) */
+  sponsorCacheTtl?: number;
+  /** Application identifier passed to sponsor resolvers */
+  appId?: string;
   relayApiUrl?: string;
+  /** Base URL of the relay task status endpoint (default: `${relayApiUrl}/status`) */
+  relayStatusUrl?: string;
+  /**
+   * Base URL for looking up a submission by idempotency key (optional; no lookup without it).
+   * `GET {idempotencyLookupUrl}/{idempotencyKey}` must answer with a task status
+   * body that includes `taskId` for a request posted under that `Idempotency-Key`,
+   * and 404 when there is none.
+   */
+  idempotencyLookupUrl?: string;
+  /** RelayRequest schema verified by the default chain's relayer contract (default: 1) */
+  relayRequestVersion?: RelayRequestVersion;
+  /** The default chain's relayer appends the verified user to the target call (optional, see ChainConfig) */
+  relayerAppendsSender?: boolean;
   /** API key for authentication */
   apiKey?: string;
   /** Additional chain configurations for multi-chain support */
   chains?: Record<number, ChainConfig>;
   /** Retry configuration */
-  retry?: {
-    /** Maximum number of retry attempts (default: 3) */
-    maxAttempts?: number;
-    /** Initial delay in milliseconds (default: 1000) */
-    initialDelay?: number;
-    /** Backoff multiplier (default: 2) */
-    backoffMultiplier?: number;
-  };
+  retry?: RetryConfig;
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
+  /** Spending policies keyed by sponsor address */
+  sponsorPolicies?: Record<string, SponsorPolicy>;
+  /** Store for per-user daily quota counters (default: in-memory) */
+  quotaStore?: KeyValueStore<number>;
+  /**
+   * Store for relay submission records keyed by idempotency key (default:
+   * in-memory). Use a persistent store to dedupe across page reloads.
+   */
+  idempotencyStore?: KeyValueStore<RelaySubmissionRecord>;
+  /** How long submission records are honoured, in milliseconds (default: 86400000) */
+  idempotencyTtl?: number;
+  /** Logger for SDK activity (default: silent); signatures and the API key are redacted */
+  logger?: Logger;
+  /** Permit flavors and per-token permit methods for token transfers (default: built-in flavors) */
+  permitFlavors?: PermitFlavorRegistry;
+  /** Token metadata cache, e.g. seeded from a token list or shared between SDK instances (default: a new registry) */
+  tokenRegistry?: TokenRegistry;
+  /**
+   * Before each submission, compare the signed EIP-712 domain with the relayer
+   * contract's on-chain domain (default: false; requires a provider for the chain)
+   */
+  verifyRelayDomain?: boolean;
 }
 
 export interface RelayTransactionParams {
@@ -56,6 +228,8 @@ export interface RelayTransactionParams {
   data: string;
   /** User's wallet address */
   userAddress: string;
+  /** Optional expiry for v2 relay requests (Unix timestamp, defaults to 1 hour from now) */
+  deadline?: number;
 }
 
 export interface RelayResult {
@@ -67,6 +241,463 @@ export interface RelayResult {
   gasUsed?: string;
   /** Success message */
   message: string;
+  /** Number of confirmations (set once the receipt has been awaited) */
+  confirmations?: number;
+  /** Whether the relayed target call succeeded (set once the receipt has been awaited) */
+  innerCallSuccess?: boolean;
+  /** Revert data returned by the target call when innerCallSuccess is false */
+  revertData?: string;
+  /** Decoded revert reason when innerCallSuccess is false */
+  revertReason?: DecodedRevertReason;
+  /** Correlation ID of the operation that produced this result */
+  requestId?: string;
+  /** Relay API task ID, when the request was queued */
+  taskId?: string;
+  /** Hash of the signed relay payload, sent as the `Idempotency-Key` header */
+  idempotencyKey?: string;
+}
+
+/** Submission state of a signed relay payload, keyed by its idempotency key */
+export interface RelaySubmissionRecord {
+  /** `inFlight` until the relay API has acknowledged the request */
+  status: 'inFlight' | 'completed';
+  /** Unix time in milliseconds the record was last written */
+  updatedAt: number;
+  /** Relay API acknowledgement (completed only); `txHash` is missing while the request is queued */
+  result?: Pick<RelayResult, 'taskId' | 'blockNumber' | 'gasUsed' | 'message'> & { txHash?: string };
+}
+
+/**
+ * State of a queued relay task
+ *
+ * - `pending`: accepted by the relay API, not yet broadcast
+ * - `submitted`: broadcast, waiting to be mined
+ * - `mined`: included in a block
+ * - `failed`: dropped, reverted or rejected by the relayer
+ */
+export type RelayTaskState = 'pending' | 'submitted' | 'mined' | 'failed';
+
+export interface RelayTaskPending {
+  state: 'pending';
+  taskId: string;
+}
+
+export interface RelayTaskSubmitted {
+  state: 'submitted';
+  taskId: string;
+  txHash: string;
+}
+
+export interface RelayTaskMined {
+  state: 'mined';
+  taskId: string;
+  txHash: string;
+  blockNumber?: number;
+  gasUsed?: string;
+}
+
+export interface RelayTaskFailed {
+  state: 'failed';
+  taskId: string;
+  /** Transaction hash, if the task failed after broadcasting */
+  txHash?: string;
+  reason: string;
+}
+
+/** Status of a queued relay task, discriminated by `state` */
+export type RelayTaskStatus = RelayTaskPending | RelayTaskSubmitted | RelayTaskMined | RelayTaskFailed;
+
+/** Options for polling a queued relay task */
+export interface WaitForTaskOptions {
+  /** State to wait for (default: 'mined'); 'submitted' resolves once a tx hash is known */
+  until?: 'submitted' | 'mined';
+  /** Maximum time to wait in milliseconds (default: 120000) */
+  timeout?: number;
+  /** First polling interval in milliseconds (default: 1000) */
+  pollInterval?: number;
+  /** Longest polling interval in milliseconds (default: 10000) */
+  maxPollInterval?: number;
+  /** Polling interval multiplier (default: 1.5) */
+  backoffMultiplier?: number;
+  /** Called with every status that differs from the previous one */
+  onStatus?: (status: RelayTaskStatus) => void;
+  /** Stops polling; rejects with RelayAbortedError */
+  signal?: AbortSignal;
+}
+
+/** Options for waiting on a relayed transaction */
+export interface WaitForRelayOptions {
+  /** Number of confirmations to wait for (default: 1) */
+  confirmations?: number;
+  /** Maximum time to wait in milliseconds (default: 120000) */
+  timeout?: number;
+  /** Receipt polling interval in milliseconds (default: 2000) */
+  pollInterval?: number;
+  /** Throw RelayInnerCallFailedError when the target call failed (default: true) */
+  throwOnInnerCallFailure?: boolean;
+  /** ABI of the target contract, used to decode custom errors */
+  targetAbi?: TargetAbi;
+  /** Stops waiting; rejects with RelayAbortedError */
+  signal?: AbortSignal;
+}
+
+/** Contract ABI in any format accepted by ethers (human-readable or JSON fragments) */
+export type TargetAbi = ReadonlyArray<string | Record<string, unknown>>;
+
+/** Decoded revert data of a failed call */
+export interface DecodedRevertReason {
+  /**
+   * - `error`: `Error(string)` from `require`/`revert("...")`
+   * - `panic`: `Panic(uint256)` from failed asserts, overflows, etc.
+   * - `custom`: custom error found in the target ABI
+   * - `empty`: the call reverted without data
+   * - `unknown`: revert data that could not be decoded
+   */
+  kind: 'error' | 'panic' | 'custom' | 'empty' | 'unknown';
+  /** Human-readable reason */
+  reason: string;
+  /** Raw revert data */
+  data: string;
+  /** Custom error name (custom only) */
+  errorName?: string;
+  /** Custom error arguments (custom only) */
+  args?: unknown[];
+  /** Panic code (panic only) */
+  panicCode?: bigint;
+}
+
+/** Decoded KalpRelayer `RelayExecuted` event */
+export interface RelayExecutedEvent {
+  target: string;
+  user: string;
+  sponsor: string;
+  /** Whether `target.call(data)` succeeded */
+  success: boolean;
+  /** Return data of the target call, or revert data if it failed */
+  result: string;
+}
+
+/** Log emitted by a relay transaction */
+export interface RelayLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+/** Relay result after the transaction has been mined and confirmed */
+export interface RelayReceipt extends RelayResult {
+  blockNumber: number;
+  gasUsed: string;
+  confirmations: number;
+  innerCallSuccess: boolean;
+  /** Decoded RelayExecuted event emitted by the relayer */
+  relayEvent: RelayExecutedEvent;
+  /** All logs of the relay transaction */
+  logs: RelayLog[];
+}
+
+/** Defaults for calls made through `sdk.contract()` */
+export interface GaslessContractOptions {
+  /** User the calls are relayed for (can be overridden per call) */
+  userAddress?: string;
+  /** Chain the contract is on (default: the SDK's current chain) */
+  chainId?: number;
+}
+
+/** Trailing per-call overrides accepted by `contract.gasless.<method>()` */
+export interface GaslessCallOverrides extends RelayExecutionOptions {
+  userAddress?: string;
+  chainId?: number;
+}
+
+/** Event decoded with the contract ABI */
+export interface DecodedContractEvent {
+  name: string;
+  /** Canonical event signature, e.g. `Transfer(address,address,uint256)` */
+  signature: string;
+  args: unknown[];
+  /** Arguments keyed by parameter name (unnamed parameters are omitted) */
+  namedArgs: Record<string, unknown>;
+}
+
+/** Outcome of a gasless contract call */
+export interface GaslessCallResult extends RelayResult {
+  /** Confirmed receipt (absent when `waitForReceipt: false`) */
+  receipt?: RelayReceipt;
+  /**
+   * Decoded return value of the target function: the value itself for a
+   * single output, an ethers Result for several (absent when not awaited)
+   */
+  returnValue?: unknown;
+  /** Events the contract emitted during the call */
+  events: DecodedContractEvent[];
+}
+
+/** A call relayed as part of a batch */
+export interface RelayBatchCall {
+  /** Target contract address */
+  target: string;
+  /** Encoded function call data (without an ERC-2771 suffix) */
+  data: string;
+  /** ABI of the target, used to decode the return value and custom errors */
+  abi?: TargetAbi;
+}
+
+/** Parameters of `executeRelayBatch()` */
+export interface RelayBatchParams {
+  /** Calls to relay, in execution order */
+  calls: RelayBatchCall[];
+  /** User's wallet address */
+  userAddress: string;
+  /** Optional expiry for v2 relay requests (Unix timestamp, defaults to 1 hour from now) */
+  deadline?: number;
+}
+
+/**
+ * How failures inside a batch are handled
+ *
+ * - `atomic`: any failing call reverts the whole batch
+ * - `bestEffort`: failing calls are reported and the others still take effect
+ */
+export type RelayBatchMode = 'atomic' | 'bestEffort';
+
+/** Options for `executeRelayBatch()` */
+export interface RelayBatchOptions extends RelayExecutionOptions {
+  /** Failure handling (default: 'atomic') */
+  mode?: RelayBatchMode;
+  /**
+   * ERC-2771-aware batch forwarder to relay through. Required unless
+   * `senderIndependent` is set, since the forwarder is what lets the calls act
+   * as the user.
+   */
+  forwarderAddress?: string;
+  /**
+   * Confirms that no call depends on `msg.sender` (e.g. facilitator transfers
+   * carrying their own permits), so the batch may go through Multicall3, which
+   * every target sees as the sender
+   */
+  senderIndependent?: boolean;
+  /** Multicall3 contract for `senderIndependent` batches (default: the canonical deployment) */
+  multicallAddress?: string;
+}
+
+/** Outcome of one call of a batch */
+export interface RelayBatchCallResult {
+  target: string;
+  success: boolean;
+  /** Raw return data, or revert data when the call failed */
+  returnData: string;
+  /** Decoded return value, when the call has an ABI */
+  returnValue?: unknown;
+  /** Decoded revert reason when the call failed */
+  revertReason?: DecodedRevertReason;
+}
+
+/** Result of a batched relay */
+export interface RelayBatchResult extends RelayResult {
+  /** Contract the batch was relayed through (Multicall3 or the forwarder) */
+  batchTarget: string;
+  /**
+   * Outcome of each call, in call order (absent when `waitForReceipt: false`
+   * or when the whole batch reverted)
+   */
+  calls?: RelayBatchCallResult[];
+}
+
+/** Options for simulating a relay call */
+export interface SimulateRelayOptions {
+  /** ABI of the target contract, used to decode return data and custom errors */
+  targetAbi?: TargetAbi;
+  /**
+   * Authorized relayer address to simulate `KalpRelayer.executeRelay` from.
+   * The wrapper can only be simulated once the request is signed, so this
+   * also requires `signature` when calling simulateRelay directly.
+   */
+  relayerSender?: string;
+  /** User's relay request signature (wrapper simulation only) */
+  signature?: string;
+  /** Sponsor address to simulate with (defaults to the chain's sponsor) */
+  sponsorAddress?: string;
+  /** Stops waiting for the simulation; rejects with RelayAbortedError */
+  signal?: AbortSignal;
+}
+
+/** Result of a successful relay simulation */
+export interface RelaySimulationResult {
+  /** Raw return data of the target call */
+  returnData: string;
+  /** Return values decoded with `targetAbi`, if provided */
+  decoded?: unknown[];
+  /** Whether KalpRelayer.executeRelay was simulated as well */
+  wrapperSimulated: boolean;
+}
+
+/** Options for estimating the gas of a sponsored relay */
+export interface EstimateRelayGasOptions {
+  /**
+   * Authorized relayer address to estimate `KalpRelayer.executeRelay` from.
+   * Requires `signature`; without it the target call is estimated and a
+   * fixed relayer overhead is added.
+   */
+  relayerSender?: string;
+  /** User's relay request signature (relayer estimation only) */
+  signature?: string;
+  /** Sponsor address to estimate with (defaults to the chain's sponsor) */
+  sponsorAddress?: string;
+  /** Safety margin added to the estimate, in percent (default: 20) */
+  gasBufferPercent?: number;
+  /** Stops waiting for the estimate; rejects with RelayAbortedError */
+  signal?: AbortSignal;
+}
+
+/** Gas and fee estimate for a sponsored relay */
+export interface RelayGasEstimate {
+  /**
+   * - `relayer`: estimated directly against `KalpRelayer.executeRelay`
+   * - `target`: target call estimate plus the relayer's fixed overhead
+   */
+  method: 'relayer' | 'target';
+  /** Estimated gas units, without buffer */
+  gasEstimate: bigint;
+  /** Suggested gas limit (estimate plus buffer) */
+  gasLimit: bigint;
+  /** Fee per gas used for the cost estimate (maxFeePerGas, or gasPrice on legacy chains), in wei */
+  feePerGas: bigint;
+  /** Maximum sponsored cost (gasLimit * feePerGas), in wei */
+  estimatedFee: bigint;
+  /** estimatedFee in the chain's native currency (e.g. "0.00042") */
+  estimatedFeeFormatted: string;
+  /** Native-currency breakdown of the estimate */
+  breakdown: {
+    /** Gas attributed to executing the target call, without any transaction intrinsic gas */
+    targetCallGas: bigint;
+    /** Gas attributed to the relay transaction (base cost, relayer calldata, signature checks, event) */
+    relayerOverheadGas: bigint;
+    /** Gas added by the safety buffer */
+    bufferGas: bigint;
+    /** Latest block base fee, in wei (EIP-1559 chains only) */
+    baseFeePerGas?: bigint;
+    /** Suggested priority fee, in wei (EIP-1559 chains only) */
+    maxPriorityFeePerGas?: bigint;
+    /** Legacy gas price, in wei */
+    gasPrice?: bigint;
+  };
+}
+
+/** Per-call options for executeRelay and the token transfer helpers */
+export interface RelayExecutionOptions {
+  /**
+   * Correlation ID attached to every log entry and lifecycle event of this
+   * operation (generated if omitted)
+   */
+  requestId?: string;
+  /** Wait for the relay transaction to be mined before resolving */
+  waitForReceipt?: boolean | WaitForRelayOptions;
+  /** Cancels the operation; pending steps reject with RelayAbortedError */
+  signal?: AbortSignal;
+  /**
+   * Polling options for requests the relay API queues; the relay resolves once
+   * the task has a transaction hash
+   */
+  waitForTask?: Omit<WaitForTaskOptions, 'until' | 'signal'>;
+  /**
+   * Simulate the target call before asking for a signature. With
+   * `relayerSender`, the signed wrapper call is simulated before submission too.
+   */
+  simulate?: boolean | Omit<SimulateRelayOptions, 'signature' | 'sponsorAddress'>;
+}
+
+/** Options for `prepareRelayRequest()` */
+export interface PrepareRelayOptions {
+  /** Correlation ID for the request (generated if omitted) */
+  requestId?: string;
+  /** Cancels sponsor resolution, simulation and nonce lookup */
+  signal?: AbortSignal;
+  /** Simulate the target call before returning the request */
+  simulate?: boolean | Pick<SimulateRelayOptions, 'targetAbi'>;
+}
+
+/** Options for `signRelay()` */
+export interface SignRelayOptions {
+  /** Cancels the signature request */
+  signal?: AbortSignal;
+}
+
+/** Options for `submitSignedRelay()` */
+export type SubmitSignedRelayOptions = Pick<
+  RelayExecutionOptions,
+  'requestId' | 'waitForReceipt' | 'signal' | 'waitForTask'
+>;
+
+/** Step of a relay at which a lifecycle `failed` event was raised */
+export type RelayLifecycleStage = 'sponsor' | 'simulate' | 'permit' | 'sign' | 'submit' | 'confirm';
+
+/** Fields shared by every relay lifecycle event */
+export interface RelayLifecycleEventBase {
+  /** Correlation ID of the operation (the `requestId` execution option) */
+  correlationId: string;
+  chainId: number;
+}
+
+/** Signature a lifecycle event refers to */
+export type RelaySignatureKind = 'relayRequest' | 'permit' | 'permitRevocation';
+
+export interface RelaySignRequestedEvent extends RelayLifecycleEventBase {
+  /** What the user is asked to sign; `permitRevocation` follows a permit that grants more than the transfer */
+  kind: RelaySignatureKind;
+  userAddress: string;
+  /** Relayed target (relayRequest) or token (permit) */
+  target: string;
+}
+
+export interface RelaySignedEvent extends RelayLifecycleEventBase {
+  kind: RelaySignatureKind;
+  userAddress: string;
+  target: string;
+}
+
+export interface RelaySubmitAttemptEvent extends RelayLifecycleEventBase {
+  /** 1-based attempt number */
+  attempt: number;
+  maxAttempts: number;
+}
+
+export interface RelayRetryScheduledEvent extends RelayLifecycleEventBase {
+  /** Attempt that failed */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before the next attempt in milliseconds */
+  delay: number;
+  error: unknown;
+}
+
+export interface RelayQueuedEvent extends RelayLifecycleEventBase {
+  taskId: string;
+}
+
+export interface RelaySubmittedEvent extends RelayLifecycleEventBase {
+  result: RelayResult;
+}
+
+export interface RelayConfirmedEvent extends RelayLifecycleEventBase {
+  receipt: RelayReceipt;
+}
+
+export interface RelayFailedEvent extends RelayLifecycleEventBase {
+  stage: RelayLifecycleStage;
+  error: unknown;
+}
+
+/** Lifecycle events emitted by KalpRelaySDK, keyed by event name */
+export interface RelayLifecycleEvents {
+  signRequested: RelaySignRequestedEvent;
+  signed: RelaySignedEvent;
+  submitAttempt: RelaySubmitAttemptEvent;
+  retryScheduled: RelayRetryScheduledEvent;
+  queued: RelayQueuedEvent;
+  submitted: RelaySubmittedEvent;
+  confirmed: RelayConfirmedEvent;
+  failed: RelayFailedEvent;
 }
 
 export interface EIP712Message {
@@ -75,6 +706,10 @@ export interface EIP712Message {
   user: string;
   sponsor: string;
   chainId: bigint;
+  /** Relayer nonce of the user (v2 only) */
+  nonce?: bigint;
+  /** Expiry of the request (v2 only) */
+  deadline?: bigint;
 }
 
 export interface EIP712Domain {
@@ -84,6 +719,80 @@ export interface EIP712Domain {
   verifyingContract: `0x${string}`;
 }
 
+/** EIP-712 domain as reported by a contract; absent fields are not part of the domain */
+export interface OnChainEip712Domain {
+  name?: string;
+  version?: string;
+  chainId?: number;
+  verifyingContract?: `0x${string}`;
+  salt?: `0x${string}`;
+}
+
+/** Options for `verifyRelaySignature()` */
+export interface VerifyRelaySignatureOptions {
+  /** Also compare the domain separator with the relayer contract's on-chain domain */
+  checkDomain?: boolean;
+  /** Cancels the on-chain domain lookup */
+  signal?: AbortSignal;
+}
+
+/** Result of a successful `verifyRelaySignature()` */
+export interface RelaySignatureVerification {
+  /** Address recovered from the signature (the request's user) */
+  signer: string;
+  /** Domain separator of the signed domain */
+  domainSeparator: string;
+  /** Relayer contract's domain separator (set when `checkDomain` is enabled) */
+  onChainDomainSeparator?: string;
+}
+
+/**
+ * Unsigned relay request returned by `prepareRelayRequest()`: the EIP-712
+ * typed data the user signs. Integers are bigints, so pass it to `signRelay()`
+ * in the same process; the signed envelope is the serializable form.
+ */
+export interface PreparedRelayRequest {
+  /** Correlation ID carried through signing and submission */
+  requestId: string;
+  chainId: number;
+  relayRequestVersion: RelayRequestVersion;
+  domain: EIP712Domain;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: 'RelayRequest';
+  message: EIP712Message;
+}
+
+/** Signed RelayRequest message with integers encoded as decimal strings */
+export interface SignedRelayMessage {
+  target: string;
+  data: string;
+  user: string;
+  sponsor: string;
+  chainId: string;
+  /** Relayer nonce of the user (v2 only) */
+  nonce?: string;
+  /** Expiry of the request (v2 only) */
+  deadline?: string;
+}
+
+/**
+ * Serializable signed relay request returned by `signRelay()` and accepted by
+ * `submitSignedRelay()`, so signing and submission can run in different
+ * processes. Encode it with `serializeSignedRelay()`.
+ */
+export interface SignedRelayRequest {
+  /** Envelope format version */
+  format: 1;
+  /** Correlation ID of the operation that prepared the request */
+  requestId?: string;
+  chainId: number;
+  relayRequestVersion: RelayRequestVersion;
+  domain: EIP712Domain;
+  message: SignedRelayMessage;
+  /** User's EIP-712 signature */
+  signature: string;
+}
+
 export type SignTypedDataFunction = (args: {
   domain?: {
     chainId?: number | bigint;
@@ -96,30 +805,176 @@ export type SignTypedDataFunction = (args: {
   primaryType: string;
   message: Record<string, unknown>;
   account?: `0x${string}`;
+  /** Aborts the signature request (set by the SDK when the operation has a signal) */
+  signal?: AbortSignal;
 }) => Promise<string>;
 
+/**
+ * ERC20Facilitator entry point used for token transfers
+ *
+ * - `permit`: `facilitateTransferWithPermit` / `facilitateBulkTransferWithPermit`
+ * - `nonceTracking`: `facilitateTransferWithNonceTracking` / `facilitateBulkTransferWithNonceTracking`,
+ *   which additionally bind the permit hash to the owner's current token nonce
+ */
+export type FacilitatorMode = 'permit' | 'nonceTracking';
+
 /** ERC20 Token Transfer Parameters */
 export interface TokenTransferParams {
   /** ERC20 token contract address */
   tokenAddress: string;
   /** Recipient address */
   recipient: string;
-  /** Amount to transfer (in token's smallest unit, e.g., wei for 18 decimals) */
+  /** Amount to transfer (in token's smallest unit, e.g., wei for 18 decimals, unless amountFormat is 'decimal') */
+  amount: string | bigint;
+  /** How string amounts are interpreted (default: 'raw') */
+  amountFormat?: AmountFormat;
+  /** User's wallet address */
+  userAddress: string;
+  /** ERC20Facilitator contract address */
+  facilitatorAddress: string;
+  /** Optional deadline for permit signature (Unix timestamp, defaults to 1 hour from now) */
+  deadline?: number;
+  /** Facilitator entry point to call (defaults to 'permit') */
+  facilitatorMode?: FacilitatorMode;
+  /** Token EIP-712 domain to sign the permit for, skipping domain discovery */
+  tokenDomain?: EIP2612Domain;
+  /**
+   * How the transfer is authorized (default: the method registered for the
+   * token, otherwise `eip2612` or `permit2` as detected from the token)
+   */
+  permitMethod?: PermitMethod;
+  /** Permit2 contract used by the facilitator (default: the canonical deployment) */
+  permit2Address?: string;
+}
+
+/** A single recipient of a bulk ERC20 transfer */
+export interface BulkTransferRecipient {
+  /** Recipient address */
+  to: string;
+  /** Amount to transfer (in token's smallest unit, unless the transfer's amountFormat is 'decimal') */
   amount: string | bigint;
+}
+
+/** Bulk ERC20 Token Transfer Parameters */
+export interface BulkTokenTransferParams {
+  /** ERC20 token contract address */
+  tokenAddress: string;
+  /** Recipients and their respective amounts */
+  recipients: BulkTransferRecipient[];
+  /** How string recipient amounts are interpreted (default: 'raw') */
+  amountFormat?: AmountFormat;
   /** User's wallet address */
   userAddress: string;
   /** ERC20Facilitator contract address */
   facilitatorAddress: string;
   /** Optional deadline for permit signature (Unix timestamp, defaults to 1 hour from now) */
   deadline?: number;
+  /** Facilitator entry point to call (defaults to 'permit') */
+  facilitatorMode?: FacilitatorMode;
+  /** Token EIP-712 domain to sign the permit for, skipping domain discovery */
+  tokenDomain?: EIP2612Domain;
+}
+
+/** Result of a bulk token transfer */
+export interface BulkTokenTransferResult extends RelayResult {
+  /** Sum of all recipient amounts (the value covered by the permit) */
+  totalAmount: bigint;
+  /** Per-recipient breakdown, in the order sent to the facilitator */
+  recipients: Array<{ to: string; amount: bigint }>;
 }
 
 /** EIP-2612 Permit Domain */
+/**
+ * EIP-712 domain of a permit token. Only the fields that are set are part of
+ * the domain, so a token without `version` (or with a `salt` instead of
+ * `chainId`) is described exactly.
+ */
 export interface EIP2612Domain {
   name: string;
   version?: string;
-  chainId: number;
+  chainId?: number;
   verifyingContract: string;
+  salt?: string;
+}
+
+/**
+ * How string token amounts are interpreted
+ *
+ * - `raw`: base units (e.g. "1000000" is 1 USDC)
+ * - `decimal`: whole tokens with an optional fraction (e.g. "12.5"), converted
+ *   with the token's `decimals()`
+ *
+ * bigint amounts are always in base units.
+ */
+export type AmountFormat = 'raw' | 'decimal';
+
+/**
+ * How a token transfer is authorized
+ *
+ * - `eip2612`: the token's own `permit`
+ * - `permit2`: a Uniswap Permit2 `PermitWitnessTransferFrom` signature binding
+ *   the recipient (the owner must have approved the Permit2 contract once)
+ * - `dai`: DAI's `permit(holder, spender, nonce, expiry, allowed, ...)`
+ * - `eip3009`: `transferWithAuthorization` (e.g. USDC)
+ *
+ * Custom flavors registered in a PermitFlavorRegistry use their own names.
+ */
+export type PermitMethod = 'eip2612' | 'permit2' | 'dai' | 'eip3009' | (string & {});
+
+/** Metadata of a token on one chain, as held by a TokenRegistry */
+export interface TokenMetadata {
+  chainId: number;
+  /** Checksummed token address */
+  address: string;
+  name?: string;
+  symbol?: string;
+  decimals?: number;
+  /**
+   * EIP-712 permit domain; null if none could be resolved, undefined until the
+   * token has been looked up on-chain
+   */
+  permitDomain?: EIP2612Domain | null;
+  /** How transfers of the token are authorized, once known */
+  permitMethod?: PermitMethod;
+}
+
+/** A token of a Uniswap-style token list */
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  /** Free-form extensions; a string `permitMethod` sets the token's permit method */
+  extensions?: Record<string, unknown>;
+}
+
+/** Uniswap-style token list (https://tokenlists.org) */
+export interface TokenList {
+  name: string;
+  tokens: TokenListToken[];
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  logoURI?: string;
+  keywords?: string[];
+}
+
+/** Permit2 SignatureTransfer `PermitWitnessTransferFrom` message */
+export interface Permit2TransferMessage {
+  permitted: {
+    token: string;
+    amount: bigint;
+  };
+  /** Contract allowed to call Permit2 (the facilitator) */
+  spender: string;
+  nonce: bigint;
+  deadline: bigint;
+  /** Recipient bound to the signature */
+  witness: {
+    to: string;
+  };
 }
 
 /** EIP-2612 Permit Message */
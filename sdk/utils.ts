@@ -2,7 +2,8 @@
  * Utility functions for KalpRelaySDK
  */
 
-import { RequestTimeoutError } from './errors';
+import { RequestTimeoutError, RelayAbortedError, RelayHttpError, RelaySubmissionUnconfirmedError } from './errors';
+import type { KeyValueStore } from './types';
 
 /** Cache entry with timestamp */
 interface CacheEntry<T> {
@@ -69,8 +70,59 @@ export class Cache<T> {
   }
 }
 
+/**
+ * In-memory KeyValueStore (default for pluggable SDK stores)
+ */
+export class MemoryStore<T> implements KeyValueStore<T> {
+  private store = new Map<string, T>();
+  private expiries = new Map<string, number>();
+
+  get(key: string): T | undefined {
+    this.evictExpired();
+    return this.store.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.store.set(key, value);
+    this.expiries.delete(key);
+  }
+
+  delete(key: string): void {
+    this.store.delete(key);
+    this.expiries.delete(key);
+  }
+
+  increment(key: string, delta: number, ttl?: number): number {
+    this.evictExpired();
+    const value = Number(this.store.get(key) ?? 0) + delta;
+    this.store.set(key, value as T);
+    if (ttl !== undefined) {
+      this.expiries.set(key, Date.now() + ttl);
+    }
+    return value;
+  }
+
+  /**
+   * Drop keys whose TTL has passed, including ones that are never read again
+   * @private
+   */
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.expiries) {
+      if (expiresAt <= now) {
+        this.store.delete(key);
+        this.expiries.delete(key);
+      }
+    }
+  }
+}
+
 /**
  * Retry logic with exponential backoff
+ *
+ * A RelayHttpError carrying a Retry-After delay waits that long instead of the
+ * backoff delay. A Retry-After longer than `maxDelay` is not waited for: the
+ * error is thrown right away, since retrying sooner would be refused again.
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
@@ -78,37 +130,55 @@ export async function retryWithBackoff<T>(
     maxAttempts?: number;
     initialDelay?: number;
     backoffMultiplier?: number;
-    shouldRetry?: (error: any) => boolean;
+    /** Upper bound for retry delays in milliseconds; a longer Retry-After fails instead of waiting */
+    maxDelay?: number;
+    /** Fraction of each backoff delay to randomize, from 0 (none) to 1 (full jitter) */
+    jitter?: number;
+    shouldRetry?: (error: any, attempt: number) => boolean;
+    /** Called before each retry with the failed attempt number and the upcoming delay */
+    onRetry?: (attempt: number, delay: number, error: any) => void;
+    /** Stops further attempts and interrupts the backoff delay */
+    signal?: AbortSignal;
   } = {}
 ): Promise<T> {
   const {
     maxAttempts = 3,
     initialDelay = 1000,
     backoffMultiplier = 2,
+    maxDelay = Infinity,
+    jitter = 0,
     shouldRetry = () => true,
+    onRetry,
+    signal,
   } = options;
 
   let lastError: any;
   let delay = initialDelay;
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    throwIfAborted(signal);
+
     try {
       return await fn();
     } catch (error) {
       lastError = error;
 
-      // Don't retry if we've exhausted attempts or if error shouldn't be retried
-      if (attempt === maxAttempts || !shouldRetry(error)) {
+      // Don't retry if we've exhausted attempts, were aborted, or if error shouldn't be retried
+      if (attempt === maxAttempts || error instanceof RelayAbortedError || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+
+      const backoffDelay = Math.min(delay, maxDelay) * (1 - Math.min(Math.max(jitter, 0), 1) * Math.random());
+      const retryAfter = error instanceof RelayHttpError ? error.retryAfter : undefined;
+      if (retryAfter !== undefined && retryAfter > maxDelay) {
         throw error;
       }
+      const nextDelay = Math.round(retryAfter ?? backoffDelay);
 
-      console.warn(
-        `⚠️ Attempt ${attempt}/${maxAttempts} failed. Retrying in ${delay}ms...`,
-        error
-      );
+      onRetry?.(attempt, nextDelay, error);
 
       // Wait before retrying
-      await sleep(delay);
+      await sleep(nextDelay, signal);
 
       // Exponential backoff
       delay *= backoffMultiplier;
@@ -120,25 +190,151 @@ export async function retryWithBackoff<T>(
 
 /**
  * Wrap a promise with a timeout
+ *
+ * The timer is cleared once the promise settles. With a signal, the returned
+ * promise also rejects with RelayAbortedError as soon as the signal aborts.
  */
 export function withTimeout<T>(
   promise: Promise<T>,
   timeoutMs: number,
-  errorMessage = 'Operation timed out'
+  errorMessage = 'Operation timed out',
+  signal?: AbortSignal
 ): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new RequestTimeoutError(errorMessage)), timeoutMs)
-    ),
-  ]);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new RequestTimeoutError(errorMessage)), timeoutMs);
+  });
+
+  return abortable(Promise.race([promise, timeout]), signal).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Throw RelayAbortedError if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RelayAbortedError(signal.reason);
+  }
+}
+
+/**
+ * Reject with RelayAbortedError when the signal aborts, without waiting for the promise
+ *
+ * The underlying work is not cancelled (e.g. a pending RPC call or wallet
+ * prompt), but its result is ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    promise.catch(() => {});
+    return Promise.reject(new RelayAbortedError(signal.reason));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RelayAbortedError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create an AbortController that also aborts when any of the parent signals does
+ *
+ * @returns The controller and a function detaching it from the parents
+ */
+export function createLinkedAbortController(...parents: Array<AbortSignal | undefined>): {
+  controller: AbortController;
+  release: () => void;
+} {
+  const controller = new AbortController();
+  const linked = parents.filter((parent): parent is AbortSignal => parent !== undefined);
+
+  const listeners = linked.map((parent) => {
+    const onAbort = () => controller.abort(parent.reason);
+    if (parent.aborted) {
+      onAbort();
+    } else {
+      parent.addEventListener('abort', onAbort, { once: true });
+    }
+    return () => parent.removeEventListener('abort', onAbort);
+  });
+
+  return { controller, release: () => listeners.forEach((remove) => remove()) };
 }
 
 /**
  * Sleep utility
+ *
+ * With a signal, the timer is cleared and RelayAbortedError thrown on abort.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new RelayAbortedError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RelayAbortedError(signal.reason));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal values always
+ * produce the same string (bigints are written as decimal strings)
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_, nested) => {
+    if (typeof nested === 'bigint') {
+      return nested.toString();
+    }
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.keys(nested)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = nested[key];
+          return sorted;
+        }, {});
+    }
+    return nested;
+  });
+}
+
+/**
+ * Intrinsic gas cost of transaction calldata (EIP-2028: 16 per non-zero byte, 4 per zero byte)
+ */
+export function calldataGas(data: string): bigint {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  let gas = 0n;
+  for (let i = 0; i < hex.length; i += 2) {
+    gas += hex.slice(i, i + 2) === '00' ? 4n : 16n;
+  }
+  return gas;
 }
 
 /**
@@ -155,19 +351,77 @@ export function isValidChainId(chainId: number): boolean {
   return Number.isInteger(chainId) && chainId > 0;
 }
 
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Build a RelayHttpError from a failed fetch response
+ *
+ * Reads the body (parsed as JSON when possible) and, for 429 and 503
+ * responses, the Retry-After delay.
+ */
+export async function createRelayHttpError(response: Response): Promise<RelayHttpError> {
+  const text = await response.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON; keep the raw text
+  }
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  const retryAfter = response.status === 429 || response.status === 503
+    ? parseRetryAfter(response.headers.get('retry-after'))
+    : undefined;
+
+  return new RelayHttpError(response.status, response.statusText, headers, body, retryAfter);
+}
+
+/**
+ * Whether the relay API turned a request away without submitting it:
+ * a 4xx response (including 429) or 503. Other failures after posting,
+ * such as network errors, timeouts and other 5xx responses, may have
+ * been submitted.
+ */
+export function isRejectedSubmission(error: unknown): boolean {
+  return error instanceof RelayHttpError && (error.status < 500 || error.status === 503);
+}
+
 /**
  * Check if error should be retried
  */
 export function shouldRetryError(error: any): boolean {
+  // Never retry cancelled operations, or posting a request that may already have been submitted
+  if (error instanceof RelayAbortedError || error instanceof RelaySubmissionUnconfirmedError) {
+    return false;
+  }
+
   // Retry on network errors, timeouts, and 5xx server errors
   if (error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT') {
     return true;
   }
 
   // Check HTTP status codes
-  if (error.response?.status) {
-    const status = error.response.status;
-    // Retry on 5xx server errors and 429 (rate limit)
+  const status = error instanceof RelayHttpError ? error.status : error.response?.status;
+  if (status) {
+    // Retry on 5xx server errors and 429 (rate limit); other 4xx are permanent
     return status >= 500 || status === 429;
   }
 
@@ -7,6 +7,42 @@
 
 import { ethers } from 'ethers';
 import type { SignTypedDataFunction } from './types';
+import { silentLogger, type Logger } from './logger';
+import { abortable, throwIfAborted, createLinkedAbortController } from './utils';
+import { RelayAbortedError } from './errors';
+import { eip712DomainTypes } from './eip712';
+
+/**
+ * Options shared by the signer factories
+ */
+export interface SignerOptions {
+  /** Logger for signing activity (default: silent) */
+  logger?: Logger;
+  /**
+   * Aborts every signature request made through this signer. Requests are
+   * also aborted by the per-call `signal` the SDK passes.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a signing request that rejects with RelayAbortedError once either the
+ * factory or the per-call signal aborts. Wallet prompts cannot be closed
+ * programmatically, so a late signature is discarded.
+ */
+const withSignal = async <T>(
+  options: SignerOptions,
+  callSignal: AbortSignal | undefined,
+  request: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const { controller, release } = createLinkedAbortController(options.signal, callSignal);
+  try {
+    throwIfAborted(controller.signal);
+    return await abortable(request(controller.signal), controller.signal);
+  } finally {
+    release();
+  }
+};
 
 /**
  * Prepare values for EIP-712 signing
@@ -26,11 +62,24 @@ const prepareValue = (value: any): any => {
   return value;
 };
 
+/**
+ * Copy the domain fields that are set, so the EIP712Domain type matches them
+ */
+const pickDomain = (domain: Record<string, unknown> = {}): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const { name } of eip712DomainTypes(domain)) {
+    result[name] = name === 'chainId' ? Number(domain.chainId) : domain[name];
+  }
+  return result;
+};
+
 /**
  * Create a MetaMask-compatible EIP-712 signer
  *
+ * @param options - Optional signer options (logger, abort signal)
  * @returns SignTypedDataFunction compatible with eth_signTypedData_v4
  * @throws Error if MetaMask is not installed
+ * @throws RelayAbortedError if the request is aborted
  *
  * @example
  * ```typescript
@@ -38,58 +87,58 @@ const prepareValue = (value: any): any => {
  * const sdk = new KalpRelaySDK(config, signer);
  * ```
  */
-export const createMetaMaskSigner = (): SignTypedDataFunction => {
-  return async (args: any) => {
+export const createMetaMaskSigner = (options: SignerOptions = {}): SignTypedDataFunction => {
+  const logger = options.logger ?? silentLogger;
+
+  return (args: any) => withSignal(options, args.signal, async (signal) => {
     if (!window.ethereum) {
       throw new Error('MetaMask is not installed');
     }
 
     // Request accounts first to ensure MetaMask is connected
-    await window.ethereum.request({ method: 'eth_requestAccounts' });
+    await abortable(window.ethereum.request({ method: 'eth_requestAccounts' }), signal);
 
     const provider = new ethers.BrowserProvider(window.ethereum);
     const signer = await provider.getSigner();
     const address = await signer.getAddress();
 
-    // EIP-712 requires EIP712Domain type to be included
+    // EIP-712 requires EIP712Domain type to be included, listing the fields the domain uses
+    const domain = pickDomain(args.domain);
     const types = {
-      EIP712Domain: [
-        { name: 'name', type: 'string' },
-        { name: 'version', type: 'string' },
-        { name: 'chainId', type: 'uint256' },
-        { name: 'verifyingContract', type: 'address' },
-      ],
+      EIP712Domain: eip712DomainTypes(domain),
       ...args.types,
     };
 
     const typedData = {
-      domain: {
-        name: args.domain.name,
-        version: args.domain.version,
-        chainId: args.domain.chainId,
-        verifyingContract: args.domain.verifyingContract,
-      },
+      domain,
       types,
       primaryType: args.primaryType,
       message: prepareValue(args.message),
     };
 
-    console.log('📝 Requesting signature from address:', address);
-    console.log('📝 Typed data:', JSON.stringify(typedData, null, 2));
+    logger.debug('Requesting signature', {
+      address,
+      primaryType: typedData.primaryType,
+      domain: typedData.domain,
+    });
 
     try {
       // Use eth_signTypedData_v4 for EIP-712 signing
-      const signature = await window.ethereum.request({
-        method: 'eth_signTypedData_v4',
-        params: [address, JSON.stringify(typedData)],
-      });
-
-      console.log('✅ Signature obtained successfully');
+      const signature = await abortable(
+        window.ethereum.request({
+          method: 'eth_signTypedData_v4',
+          params: [address, JSON.stringify(typedData)],
+        }),
+        signal
+      );
+
+      logger.debug('Signature obtained', { address });
       return signature as string;
     } catch (error: any) {
-      console.error('❌ Signature error:', error);
-      console.error('❌ Error code:', error.code);
-      console.error('❌ Error message:', error.message);
+      if (error instanceof RelayAbortedError) {
+        throw error;
+      }
+      logger.error('Signature request failed', { address, code: error.code, error });
 
       // Provide better error messages
       if (error.code === 4001) {
@@ -100,13 +149,14 @@ export const createMetaMaskSigner = (): SignTypedDataFunction => {
       }
       throw new Error(error.message || 'Failed to sign typed data');
     }
-  };
+  });
 };
 
 /**
  * Create an Ethers.js Signer-compatible EIP-712 signer
  *
  * @param signer - Ethers.js Signer instance (v6)
+ * @param options - Optional signer options (abort signal)
  * @returns SignTypedDataFunction using ethers signTypedData
  *
  * @example
@@ -118,8 +168,11 @@ export const createMetaMaskSigner = (): SignTypedDataFunction => {
  * const sdk = new KalpRelaySDK(config, signerFn);
  * ```
  */
-export const createEthersSigner = (signer: any): SignTypedDataFunction => {
-  return async (args: any) => {
+export const createEthersSigner = (
+  signer: any,
+  options: SignerOptions = {}
+): SignTypedDataFunction => {
+  return (args: any) => withSignal(options, args.signal, async () => {
     // Ethers v6 uses signTypedData (no underscore)
     if (!signer.signTypedData) {
       throw new Error('Signer does not support signTypedData');
@@ -132,13 +185,14 @@ export const createEthersSigner = (signer: any): SignTypedDataFunction => {
     );
 
     return signature;
-  };
+  });
 };
 
 /**
  * Create a generic EIP-1193 signer (WalletConnect, Coinbase, Frame, Rainbow, Safe, etc.)
  *
 + * @param provider - EIP-1193 provider with request method
+ * @param options - Optional signer options (abort signal)
  * @returns SignTypedDataFunction using eth_signTypedData_v4
  * @example
  * ```typescript
@@ -148,40 +202,34 @@ export const createEthersSigner = (signer: any): SignTypedDataFunction => {
  * const sdk = new KalpRelaySDK(config, signer);
  * ```
  */
-export const createEip1193Signer = (provider: {
-  request: (args: { method: string; params?: any[] }) => Promise<any>;
-}): SignTypedDataFunction => {
-  return async (args: any) => {
+export const createEip1193Signer = (
+  provider: {
+    request: (args: { method: string; params?: any[] }) => Promise<any>;
+  },
+  options: SignerOptions = {}
+): SignTypedDataFunction => {
+  return (args: any) => withSignal(options, args.signal, async (signal) => {
     if (!provider?.request) {
       throw new Error('Provider does not implement request');
     }
 
     // Ensure we have an account
     const accounts =
-      (await provider.request({ method: 'eth_requestAccounts' })) ??
-      (await provider.request({ method: 'eth_accounts' }));
+      (await abortable(provider.request({ method: 'eth_requestAccounts' }), signal)) ??
+      (await abortable(provider.request({ method: 'eth_accounts' }), signal));
 
     const address = accounts?.[0];
     if (!address) {
       throw new Error('No account available from provider');
     }
 
+    const domain = pickDomain(args.domain);
     const typedData = {
       types: {
-        EIP712Domain: [
-          { name: 'name', type: 'string' },
-          { name: 'version', type: 'string' },
-          { name: 'chainId', type: 'uint256' },
-          { name: 'verifyingContract', type: 'address' },
-        ],
+        EIP712Domain: eip712DomainTypes(domain),
         ...args.types,
       },
-      domain: {
-        name: args.domain.name,
-        version: args.domain.version,
-        chainId: Number(args.domain.chainId),
-        verifyingContract: args.domain.verifyingContract,
-      },
+      domain,
       primaryType: args.primaryType,
       message: prepareValue(args.message),
     };
@@ -190,5 +238,5 @@ export const createEip1193Signer = (provider: {
       method: 'eth_signTypedData_v4',
       params: [address, JSON.stringify(typedData)],
     });
-  };
+  });
 };